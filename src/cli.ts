@@ -5,27 +5,50 @@ import yargs from 'yargs'
 import { hideBin } from 'yargs/helpers'
 import {
     loadConfig,
+    login,
     publish,
+    resume,
+    unpublish,
+    update,
+    type BacklinkMode,
     type CliIO,
+    type ImageOverflow,
     type NoatConfig,
-    type PublishOptions
+    type PublishOptions,
+    type ThreadAttach
 } from './index.js'
 
 interface ParsedCli {
-    command:'publish' | 'help'
+    command:'publish' | 'update' | 'unpublish' | 'resume' | 'login' | 'help'
     options:PublishOptions
 }
 
 interface YargsCliResult {
     _:Array<string | number>
+    paths?:string[]
+    since?:string
+    limit?:number
     config?:string
     cwd?:string
+    account?:string
     handle?:string
     pdsUrl?:string
     posts?:string
     passwordEnvVar?:string
     postTextField?:string
     baseUrl?:string
+    shortenLinks?:boolean
+    backlinkMode?:BacklinkMode
+    imageOverflow?:ImageOverflow
+    resizeImages?:boolean
+    thread?:boolean
+    threadAttach?:ThreadAttach
+    backdate?:boolean
+    longForm?:boolean
+    linkToEntry?:boolean
+    retries?:number
+    timeoutMs?:number
+    force?:boolean
     dryRun?:boolean
     verbose?:boolean
     help?:boolean
@@ -39,12 +62,34 @@ const DEFAULT_IO:CliIO = {
 function createParser (argv:string[]) {
     return yargs(argv)
         .scriptName('noat')
-        .usage('Usage: $0 [publish] [options]')
-        .command('publish', 'Publish markdown posts to Bluesky')
+        .usage('Usage: $0 [publish|update|unpublish|resume|login] [options]')
+        .command(
+            'publish [paths..]',
+            'Publish markdown posts to Bluesky',
+            command => command.positional('paths', {
+                type: 'string',
+                describe: 'Markdown files or globs to publish'
+            })
+        )
+        .command('update', 'Update published posts that changed since')
+        .command(
+            'unpublish <paths...>',
+            'Delete published posts from Bluesky',
+            command => command.positional('paths', {
+                type: 'string',
+                describe: 'Markdown files to unpublish'
+            })
+        )
+        .command('resume', 'Finish a publish run that stopped part way')
+        .command('login', 'Log in with OAuth instead of an app password')
         .option('config', {
             type: 'string',
             describe: 'Path to noat.config.*'
         })
+        .option('account', {
+            type: 'string',
+            describe: 'Only use this account from the config accounts list'
+        })
         .option('handle', {
             type: 'string',
             describe: 'Bluesky handle'
@@ -52,7 +97,7 @@ function createParser (argv:string[]) {
         .option('pdsUrl', {
             alias: 'pds-url',
             type: 'string',
-            describe: 'Bluesky PDS URL'
+            describe: 'Bluesky PDS URL (discovered from the handle if unset)'
         })
         .option('posts', {
             type: 'string',
@@ -73,6 +118,73 @@ function createParser (argv:string[]) {
             type: 'string',
             describe: 'Base URL prefixed to each post slug'
         })
+        .option('shortenLinks', {
+            alias: 'shorten-links',
+            type: 'boolean',
+            describe: 'Shorten displayed link text in posts'
+        })
+        .option('backlinkMode', {
+            alias: 'backlink-mode',
+            type: 'string',
+            choices: ['inline', 'card', 'both'],
+            describe: 'Backlink as inline link, link card, or both'
+        })
+        .option('imageOverflow', {
+            alias: 'image-overflow',
+            type: 'string',
+            choices: ['error', 'truncate', 'split'],
+            describe: 'What to do with more than four images in a post'
+        })
+        .option('resizeImages', {
+            alias: 'resize-images',
+            type: 'boolean',
+            describe: 'Shrink images that are over the Bluesky size limit'
+        })
+        .option('thread', {
+            type: 'boolean',
+            describe: 'Split long posts into a thread of replies'
+        })
+        .option('threadAttach', {
+            alias: 'thread-attach',
+            type: 'string',
+            choices: ['first', 'last'],
+            describe: 'Thread post that gets the backlink and images'
+        })
+        .option('backdate', {
+            type: 'boolean',
+            describe: 'Date new posts from their frontmatter date'
+        })
+        .option('longForm', {
+            alias: 'long-form',
+            type: 'boolean',
+            describe: 'Also publish the full post as a WhiteWind entry'
+        })
+        .option('linkToEntry', {
+            alias: 'link-to-entry',
+            type: 'boolean',
+            describe: 'Link posts to their WhiteWind entry, not the site'
+        })
+        .option('retries', {
+            type: 'number',
+            describe: 'Retries for failed Bluesky requests'
+        })
+        .option('timeoutMs', {
+            alias: 'timeout-ms',
+            type: 'number',
+            describe: 'Timeout for each Bluesky request, in milliseconds'
+        })
+        .option('since', {
+            type: 'string',
+            describe: 'Only publish posts added after this git ref'
+        })
+        .option('limit', {
+            type: 'number',
+            describe: 'Publish at most this many posts, oldest first'
+        })
+        .option('force', {
+            type: 'boolean',
+            describe: 'With update, rewrite published posts even if unchanged'
+        })
         .option('cwd', {
             type: 'string',
             describe: 'Working directory'
@@ -119,7 +231,13 @@ export function parseCliArgs (argv:string[]):ParsedCli {
         }
     }
 
-    if (command !== 'publish') {
+    if (
+        command !== 'publish' &&
+        command !== 'update' &&
+        command !== 'unpublish' &&
+        command !== 'resume' &&
+        command !== 'login'
+    ) {
         throw new Error(`Unknown command "${command}". Use "noat --help".`)
     }
 
@@ -131,6 +249,9 @@ export function parseCliArgs (argv:string[]):ParsedCli {
     if (typeof parsed.cwd === 'string' && parsed.cwd.trim() !== '') {
         options.cwd = parsed.cwd
     }
+    if (typeof parsed.account === 'string' && parsed.account.trim() !== '') {
+        options.account = parsed.account
+    }
     if (typeof parsed.handle === 'string' && parsed.handle.trim() !== '') {
         options.handle = parsed.handle
     }
@@ -155,6 +276,51 @@ export function parseCliArgs (argv:string[]):ParsedCli {
     if (typeof parsed.baseUrl === 'string' && parsed.baseUrl.trim() !== '') {
         options.baseUrl = parsed.baseUrl
     }
+    if (typeof parsed.shortenLinks === 'boolean') {
+        options.shortenLinks = parsed.shortenLinks
+    }
+    if (typeof parsed.backlinkMode === 'string') {
+        options.backlinkMode = parsed.backlinkMode
+    }
+    if (typeof parsed.imageOverflow === 'string') {
+        options.imageOverflow = parsed.imageOverflow
+    }
+    if (typeof parsed.resizeImages === 'boolean') {
+        options.resizeImages = parsed.resizeImages
+    }
+    if (typeof parsed.thread === 'boolean') {
+        options.thread = parsed.thread
+    }
+    if (typeof parsed.threadAttach === 'string') {
+        options.threadAttach = parsed.threadAttach
+    }
+    if (typeof parsed.backdate === 'boolean') {
+        options.backdate = parsed.backdate
+    }
+    if (typeof parsed.longForm === 'boolean') {
+        options.longForm = parsed.longForm
+    }
+    if (typeof parsed.linkToEntry === 'boolean') {
+        options.linkToEntry = parsed.linkToEntry
+    }
+    if (typeof parsed.retries === 'number') {
+        options.retries = parsed.retries
+    }
+    if (typeof parsed.timeoutMs === 'number') {
+        options.timeoutMs = parsed.timeoutMs
+    }
+    if (typeof parsed.force === 'boolean') {
+        options.force = parsed.force
+    }
+    if (Array.isArray(parsed.paths)) {
+        options.paths = parsed.paths.map(String)
+    }
+    if (typeof parsed.since === 'string' && parsed.since.trim() !== '') {
+        options.since = parsed.since
+    }
+    if (typeof parsed.limit === 'number') {
+        options.limit = parsed.limit
+    }
     if (typeof parsed.dryRun === 'boolean') {
         options.dryRun = parsed.dryRun
     }
@@ -163,7 +329,7 @@ export function parseCliArgs (argv:string[]):ParsedCli {
     }
 
     return {
-        command: 'publish',
+        command,
         options
     }
 }
@@ -191,12 +357,52 @@ export async function runCli (
         mergedOptions.configPath = loaded.path
     }
 
-    const summary = await publish(mergedOptions, io)
-    const mode = summary.dryRun ? 'dry run complete' : 'publish complete'
+    if (parsed.command === 'login') {
+        const summary = await login(mergedOptions, io)
+        io.log(
+            `[noat] login complete. ${summary.handle} (${summary.did}) ` +
+            `on ${summary.pdsUrl}`
+        )
+        return
+    }
+
+    if (parsed.command === 'unpublish') {
+        const summary = await unpublish(mergedOptions, io)
+        const mode = summary.dryRun
+            ? 'dry run complete'
+            : 'unpublish complete'
+        const counts = [
+            `queued=${summary.queuedPosts}`,
+            `unpublished=${summary.unpublishedPosts}`
+        ].join(', ')
+        io.log(`[noat] ${mode}. ${counts}`)
+        return
+    }
+
+    if (parsed.command === 'update') {
+        const summary = await update(mergedOptions, io)
+        const mode = summary.dryRun ? 'dry run complete' : 'update complete'
+        const counts = [
+            `queued=${summary.queuedPosts}`,
+            `updated=${summary.updatedPosts}`,
+            `unchanged=${summary.unchangedPosts}`
+        ].join(', ')
+        io.log(`[noat] ${mode}. ${counts}`)
+        return
+    }
+
+    const summary = parsed.command === 'resume'
+        ? await resume(mergedOptions, io)
+        : await publish(mergedOptions, io)
+    const mode = summary.dryRun
+        ? 'dry run complete'
+        : `${parsed.command} complete`
     const counts = [
         `queued=${summary.queuedPosts}`,
         `published=${summary.publishedPosts}`,
-        `skipped=${summary.skippedPosts}`
+        `skipped=${summary.skippedPosts}`,
+        `drafts=${summary.draftPosts}`,
+        `scheduled=${summary.scheduledPosts}`
     ].join(', ')
     io.log(`[noat] ${mode}. ${counts}`)
 }
@@ -226,6 +432,45 @@ function optionsFromConfig (config:NoatConfig):PublishOptions {
     const baseUrl = resolveString(config.baseUrl)
     if (baseUrl != null) options.baseUrl = baseUrl
 
+    const shortenLinks = resolveBoolean(raw.shortenLinks)
+    if (shortenLinks != null) options.shortenLinks = shortenLinks
+
+    const backlinkMode = resolveString(raw.backlinkMode)
+    if (backlinkMode != null) {
+        options.backlinkMode = backlinkMode as BacklinkMode
+    }
+
+    const imageOverflow = resolveString(raw.imageOverflow)
+    if (imageOverflow != null) {
+        options.imageOverflow = imageOverflow as ImageOverflow
+    }
+
+    const resizeImages = resolveBoolean(raw.resizeImages)
+    if (resizeImages != null) options.resizeImages = resizeImages
+
+    const thread = resolveBoolean(raw.thread)
+    if (thread != null) options.thread = thread
+
+    const threadAttach = resolveString(raw.threadAttach)
+    if (threadAttach != null) {
+        options.threadAttach = threadAttach as ThreadAttach
+    }
+
+    const backdate = resolveBoolean(raw.backdate)
+    if (backdate != null) options.backdate = backdate
+
+    const longForm = resolveBoolean(raw.longForm)
+    if (longForm != null) options.longForm = longForm
+
+    const linkToEntry = resolveBoolean(raw.linkToEntry)
+    if (linkToEntry != null) options.linkToEntry = linkToEntry
+
+    const retries = resolveNumber(raw.retries)
+    if (retries != null) options.retries = retries
+
+    const timeoutMs = resolveNumber(raw.timeoutMs)
+    if (timeoutMs != null) options.timeoutMs = timeoutMs
+
     const dryRun = resolveBoolean(raw.dryRun)
     if (dryRun != null) options.dryRun = dryRun
 
@@ -245,6 +490,10 @@ function resolveBoolean (value:unknown):boolean | undefined {
     return typeof value === 'boolean' ? value : undefined
 }
 
+function resolveNumber (value:unknown):number | undefined {
+    return typeof value === 'number' ? value : undefined
+}
+
 function isExecutedDirectly (importMetaUrl:string):boolean {
     const entryPoint = process.argv[1]
     if (entryPoint == null) return false
@@ -1,18 +1,81 @@
 import { execFileSync } from 'node:child_process'
+import {
+    createHash,
+    createPrivateKey,
+    createPublicKey,
+    generateKeyPairSync,
+    randomBytes,
+    randomUUID,
+    sign,
+    type KeyObject,
+    type webcrypto
+} from 'node:crypto'
+import { resolveTxt } from 'node:dns/promises'
 import { existsSync } from 'node:fs'
-import { readFile, rm, writeFile } from 'node:fs/promises'
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
 import { createRequire } from 'node:module'
+import { createServer } from 'node:http'
 import { tmpdir } from 'node:os'
 import { dirname, extname, posix, relative, resolve } from 'node:path'
+import { setTimeout as sleep } from 'node:timers/promises'
 import { pathToFileURL } from 'node:url'
 import { build } from 'esbuild'
 
-const DEFAULT_PDS_URL = 'https://bsky.social'
+const DEFAULT_PLC_DIRECTORY_URL = 'https://plc.directory'
+const DEFAULT_HANDLE_RESOLVER_URL = 'https://public.api.bsky.app'
+const DEFAULT_VIDEO_SERVICE_URL = 'https://video.bsky.app'
+const IDENTITY_TIMEOUT_MS = 10 * 1000
+const DEFAULT_RETRIES = 3
+const DEFAULT_RETRY_DELAY_MS = 1000
+const DEFAULT_TIMEOUT_MS = 30 * 1000
+const MAX_RATE_LIMIT_WAIT_MS = 5 * 60 * 1000
+const RETRY_STATUSES = new Set([408, 429, 500, 502, 503, 504])
 const DEFAULT_POSTS_DIR = './posts'
 const DEFAULT_PASSWORD_ENV_VAR = 'NOAT_BLUESKY_APP_PASSWORD'
+const DEFAULT_ACCOUNT_NAME = 'default'
 const DEFAULT_POST_TEXT_FIELD = 'post'
 const DEFAULT_AT_URL_FIELD = 'AT_URL'
+const DEFAULT_AT_URI_FIELD = 'AT_URI'
+const DEFAULT_AT_CID_FIELD = 'AT_CID'
+const DEFAULT_HASH_FIELD = 'AT_HASH'
+const DEFAULT_DOCUMENT_URI_FIELD = 'AT_DOCUMENT_URI'
+const DEFAULT_REPLIES_FIELD = 'AT_REPLIES'
+const DEFAULT_MASTODON_TOKEN_ENV_VAR = 'NOAT_MASTODON_TOKEN'
+const DEFAULT_STATE_DIR = './.noat'
+const SESSION_STATE_FILE = 'session.json'
+const SESSION_EXPIRY_MARGIN_MS = 60 * 1000
+const OAUTH_STATE_FILE = 'oauth.json'
+const JOURNAL_STATE_FILE = 'journal.json'
+const OAUTH_SCOPE = 'atproto transition:generic'
+const OAUTH_CALLBACK_PATH = '/callback'
+const OAUTH_LOGIN_TIMEOUT_MS = 5 * 60 * 1000
 const PUBLISH_COMMIT_PREFIX = 'AT proto publish '
+const UPDATE_COMMIT_PREFIX = 'AT proto update '
+const UNPUBLISH_COMMIT_PREFIX = 'AT proto unpublish '
+
+const MAX_POST_LENGTH = 300
+const MAX_POST_BYTES = 3000
+const MAX_IMAGES_PER_POST = 4
+const MAX_IMAGE_BYTES = 1000000
+const MAX_VIDEO_BYTES = 100 * 1000 * 1000
+const MAX_CAPTIONS = 20
+const MAX_CAPTION_BYTES = 20000
+const VIDEO_POLL_INTERVAL_MS = 2000
+const UPLOAD_TIMEOUT_MS = 10 * 60 * 1000
+const VIDEO_PROCESSING_TIMEOUT_MS = 10 * 60 * 1000
+const MAX_LANGS = 3
+const MAX_TAGS = 8
+const MAX_TAG_LENGTH = 64
+const MAX_TAG_BYTES = 640
+const MAX_THREADGATE_RULES = 5
+const LONG_FORM_COLLECTION = 'com.whtwnd.blog.entry'
+const MAX_DOCUMENT_LENGTH = 100000
+const MAX_DOCUMENT_TITLE_LENGTH = 1000
+const MEDIA_POLL_INTERVAL_MS = 1000
+
+const TID_ALPHABET = '234567abcdefghijklmnopqrstuvwxyz'
+const TID_CLOCK_ID = Math.floor(Math.random() * 1024)
+let lastTidMicros = 0
 
 const MARKDOWN_EXTENSIONS = new Set(['.md', '.markdown'])
 
@@ -25,6 +88,12 @@ const IMAGE_MIME_BY_EXTENSION:Record<string, string> = {
     '.avif': 'image/avif'
 }
 
+const VIDEO_MIME_BY_EXTENSION:Record<string, string> = {
+    '.mp4': 'video/mp4',
+    '.webm': 'video/webm',
+    '.mov': 'video/quicktime'
+}
+
 interface BlueskyBlob {
     [key:string]:unknown
 }
@@ -32,43 +101,203 @@ interface BlueskyBlob {
 interface BlueskySession {
     accessJwt:string
     did:string
+    tokenType:'Bearer' | 'DPoP'
+}
+
+interface StoredSession extends BlueskySession {
+    refreshJwt:string
+    handle:string
+    pdsUrl:string
+}
+
+export interface ResolvedIdentity {
+    did:string
+    pdsUrl:string
 }
 
-interface CreateRecordResponse {
+type TxtResolver = (hostname:string)=>Promise<string[][]>
+
+export interface CreateRecordResponse {
     uri:string
     cid:string
 }
 
+export interface JournalRecord {
+    rkey:string
+    uri?:string
+    cid?:string
+    // `true` once a create under `rkey` was sent, so a later run looks for
+    // the record before sending it again
+    sent?:boolean
+    // `false` until the threadgate and postgate of a gated post are saved
+    gated?:boolean
+}
+
+export interface JournalPost {
+    contentHash:string
+    records:JournalRecord[]
+    // the long-form copy, written before the posts
+    document?:JournalRecord
+}
+
+interface PublishJournal {
+    queue:string[]
+    posts:Record<string, JournalPost>
+}
+
+export interface RichTextFacet {
+    index:{
+        byteStart:number
+        byteEnd:number
+    }
+    features:Array<{
+        $type:'app.bsky.richtext.facet#link'
+        uri:string
+    }>
+}
+
+export interface RichText {
+    text:string
+    facets:RichTextFacet[]
+}
+
+export type BacklinkMode = 'inline' | 'card' | 'both'
+export type TargetName = 'bluesky' | 'mastodon'
+export type ImageOverflow = 'error' | 'truncate' | 'split'
+export type ThreadAttach = 'first' | 'last'
+export type SelfLabel = 'sexual' | 'nudity' | 'porn' | 'graphic-media'
+
+export interface AccountConfig {
+    name:string
+    // defaults to 'bluesky'
+    target?:TargetName
+    // the account of its target that writes the plain publish fields
+    default?:boolean
+    // required for Bluesky, the instance host by default for Mastodon
+    handle?:string
+    pdsUrl?:string
+    passwordEnvVar?:string
+    // the Mastodon server, like 'https://mastodon.social'
+    instanceUrl?:string
+    // the env var holding the Mastodon access token
+    tokenEnvVar?:string
+    posts?:string
+}
+
 export interface NoatConfig {
     cwd?:string
     handle?:string
     pdsUrl?:string
+    plcDirectoryUrl?:string
+    handleResolverUrl?:string
+    videoServiceUrl?:string
     posts?:string
     passwordEnvVar?:string
     postTextField?:string
+    atUriField?:string
+    atCidField?:string
+    stateDir?:string
+    retries?:number
+    retryDelayMs?:number
+    timeoutMs?:number
     baseUrl?:string
+    shortenLinks?:boolean
+    backlinkMode?:BacklinkMode
+    imageOverflow?:ImageOverflow
+    resizeImages?:boolean
+    thread?:boolean
+    threadAttach?:ThreadAttach
+    backdate?:boolean
+    timezone?:string
+    langs?:string[]
+    labels?:SelfLabel[]
+    tags?:string[]
+    allowReplies?:boolean|string[]
+    allowQuotes?:boolean
+    longForm?:boolean
+    linkToEntry?:boolean
+    accounts?:AccountConfig[]
     dryRun?:boolean
     verbose?:boolean
 }
 
+export interface ResolvedAccount {
+    name:string
+    target:TargetName
+    default:boolean
+    handle:string
+    // the Mastodon instance URL for Mastodon accounts
+    pdsUrl:string|null
+    // the access token's env var for Mastodon accounts
+    passwordEnvVar:string
+    postsDir:string
+}
+
 export interface ResolvedConfig {
+    target:TargetName
     handle:string
-    pdsUrl:string
+    pdsUrl:string|null
+    plcDirectoryUrl:string
+    handleResolverUrl:string
+    videoServiceUrl:string
     postsDir:string
     passwordEnvVar:string
     postTextField:string
+    atUrlField:string
+    atUriField:string
+    atCidField:string
+    hashField:string
+    documentUriField:string
+    repliesField:string
+    stateDir:string
+    retries:number
+    retryDelayMs:number
+    timeoutMs:number
     baseUrl:string
+    shortenLinks:boolean
+    backlinkMode:BacklinkMode
+    imageOverflow:ImageOverflow
+    resizeImages:boolean
+    thread:boolean
+    threadAttach:ThreadAttach
+    backdate:boolean
+    timezone:string
+    langs:string[]
+    labels:SelfLabel[]
+    tags:string[]
+    allowReplies:string[]|null
+    allowQuotes:boolean
+    longForm:boolean
+    linkToEntry:boolean
+    // the first account is the one from `handle` when none are configured
+    accounts:ResolvedAccount[]
 }
 
 export interface PublishOptions {
     cwd?:string
     configPath?:string
+    account?:string
     handle?:string
     pdsUrl?:string
     postsDir?:string
     passwordEnvVar?:string
     postTextField?:string
     baseUrl?:string
+    shortenLinks?:boolean
+    backlinkMode?:BacklinkMode
+    imageOverflow?:ImageOverflow
+    resizeImages?:boolean
+    thread?:boolean
+    threadAttach?:ThreadAttach
+    backdate?:boolean
+    longForm?:boolean
+    linkToEntry?:boolean
+    retries?:number
+    timeoutMs?:number
+    force?:boolean
+    paths?:string[]
+    since?:string
+    limit?:number
     dryRun?:boolean
     verbose?:boolean
 }
@@ -77,30 +306,221 @@ export interface PublishSummary {
     dryRun:boolean
     totalPosts:number
     skippedPosts:number
+    draftPosts:number
+    scheduledPosts:number
     queuedPosts:number
     publishedPosts:number
 }
 
+export interface PostHold {
+    reason:'draft' | 'scheduled'
+    detail:string
+}
+
+export interface RecordMetadata {
+    langs:string[]
+    labels:SelfLabel[]
+    tags:string[]
+}
+
+export interface PostGates {
+    // who can reply: `null` for everyone, `[]` for nobody
+    allowReplies:string[]|null
+    allowQuotes:boolean
+}
+
+export interface UpdateSummary {
+    dryRun:boolean
+    totalPosts:number
+    publishedPosts:number
+    unchangedPosts:number
+    queuedPosts:number
+    updatedPosts:number
+}
+
+export interface UnpublishSummary {
+    dryRun:boolean
+    queuedPosts:number
+    unpublishedPosts:number
+}
+
+export interface LoginSummary {
+    did:string
+    handle:string
+    pdsUrl:string
+}
+
 export interface CliIO {
     log:(...args:any[])=>void
     error:(...args:any[])=>void
 }
 
+interface MarkdownImageReference {
+    alt:string
+    path:string
+}
+
+export interface MarkdownVideoReference {
+    alt:string
+    path:string
+    captions:Array<{ lang:string, path:string }>
+}
+
 interface ParsedPostFields {
     text:string
     imagePath?:string
     imageAlt:string
+    images:MarkdownImageReference[]
+    videos:MarkdownVideoReference[]
+}
+
+export interface ExternalCard {
+    uri:string
+    title:string
+    description:string
+}
+
+export interface PostLength {
+    graphemes:number
+    bytes:number
+}
+
+export interface ImageDimensions {
+    width:number
+    height:number
+}
+
+export interface DraftImage {
+    path:string
+    alt:string
+    mimeType:string
+    bytes:Buffer
+    aspectRatio?:ImageDimensions
+}
+
+export interface DraftCard extends ExternalCard {
+    thumb?:DraftImage
 }
 
-interface DraftPost {
+export interface DraftVideo {
     path:string
+    alt:string
+    mimeType:string
+    bytes:Buffer
+    aspectRatio?:ImageDimensions
+    captions:Array<{ lang:string, path:string, bytes:Buffer }>
+}
+
+export interface DraftSegment extends Partial<RecordMetadata> {
     text:string
-    image?:{
-        path:string
-        alt:string
-        mimeType:string
-        bytes:Buffer
-    }
+    facets:RichTextFacet[]
+    images:DraftImage[]
+    card?:DraftCard
+    video?:DraftVideo
+}
+
+export interface PostLink {
+    // DID or handle of the repo holding the post
+    repo:string
+    rkey:string
+    // the frontmatter value the link was read from
+    source:string
+}
+
+export interface DraftDocumentImage {
+    // the path as the markdown has it, which is rewritten to the blob
+    path:string
+    mimeType:string
+    bytes:Buffer
+}
+
+export interface DraftDocument {
+    // planned before the post is built, so the post can link to the entry
+    rkey:string
+    title?:string
+    content:string
+    images:DraftDocumentImage[]
+}
+
+export interface DraftPost extends DraftSegment {
+    path:string
+    // follow-up posts, published as a chain of self-replies
+    replies:DraftSegment[]
+    // an existing post this one replies to, from `replyTo`
+    replyTo?:PostLink
+    // an existing post embedded in the first record, from `quote`
+    quote?:PostLink
+    gates:PostGates
+    // the frontmatter date, when backdating
+    createdAt?:string
+    // the full markdown body, published as a long-form entry
+    document?:DraftDocument
+    contentHash:string
+}
+
+export interface PublishedRef {
+    // DID of the repo, when known from an `at://` URI
+    repo?:string
+    rkey:string
+    // the frontmatter value the ref was read from
+    source:string
+    // the rest of a thread, when it was recorded at publish time
+    replies?:PublishedRef[]
+}
+
+export interface PublishTarget<Session = any> {
+    authenticate:(params:{
+        env:Record<string, string|undefined>
+        config:ResolvedConfig
+        verbose:boolean
+        io:CliIO
+    })=>Promise<Session>
+    // Create the posts of a draft, one journal record per segment. Records
+    // that already have a URI are skipped, and each new one is saved as it
+    // is created.
+    createPost:(params:{
+        session:Session
+        config:ResolvedConfig
+        draft:DraftPost
+        post:JournalPost
+        save:()=>Promise<void>
+    })=>Promise<CreateRecordResponse>
+    updatePost:(params:{
+        session:Session
+        config:ResolvedConfig
+        draft:DraftPost
+        ref:PublishedRef
+    })=>Promise<CreateRecordResponse & { document?:CreateRecordResponse }>
+    deletePost:(params:{
+        session:Session
+        ref:PublishedRef
+        documentUri?:string
+    })=>Promise<void>
+    // the frontmatter value `readRef` finds a created post by
+    toMarker:(post:CreateRecordResponse)=>string
+    // the public web URL of a created post
+    getPostUrl:(params:{
+        session:Session
+        config:ResolvedConfig
+        post:CreateRecordResponse
+    })=>string
+    // find a published post from its frontmatter markers
+    readRef:(params:{
+        frontmatter:Record<string, unknown>
+        config:ResolvedConfig
+        postPath:string
+    })=>PublishedRef
+}
+
+interface RunContext {
+    env:Record<string, string|undefined>
+    config:ResolvedConfig
+    repoRoot:string
+    // the posts dir of every account, relative to the repo root
+    postsRootSpecs:string[]
+    postPaths:string[]
+    // the accounts to run for, all of them unless `account` picks one
+    accounts:ResolvedAccount[]
 }
 
 interface LoadConfigResult {
@@ -109,10 +529,79 @@ interface LoadConfigResult {
 }
 
 type JsonRecord = Record<string, unknown>
-type FetchLike = (url:string, init?:Record<string, unknown>)=>Promise<any>
+export type FetchLike = (url:string, init?:Record<string, unknown>)=>Promise<any>
+type SharpFactory = (input:Buffer, options?:Record<string, unknown>)=>any
+type JsonWebKey = webcrypto.JsonWebKey
+
+interface OpenedSession {
+    fetchImpl:FetchLike
+    session:BlueskySession
+    pdsUrl:string
+}
+
+export interface RequestPolicy {
+    retries:number
+    retryDelayMs:number
+    timeoutMs:number
+    log?:(message:string)=>void
+}
+
+interface OAuthServerMetadata {
+    issuer:string
+    authorizationEndpoint:string
+    tokenEndpoint:string
+    parEndpoint:string
+}
+
+interface StoredOAuthSession {
+    did:string
+    handle:string
+    pdsUrl:string
+    issuer:string
+    tokenEndpoint:string
+    clientId:string
+    accessToken:string
+    refreshToken:string
+    expiresAt:number
+    dpopKey:JsonWebKey
+}
+
+export interface DpopSigner {
+    key:KeyObject
+    publicJwk:JsonWebKey
+    nonces:Map<string, string>
+}
+
+const TARGET_NAMES:TargetName[] = ['bluesky', 'mastodon']
+const BACKLINK_MODES:BacklinkMode[] = ['inline', 'card', 'both']
+const IMAGE_OVERFLOWS:ImageOverflow[] = ['error', 'truncate', 'split']
+const THREAD_ATTACHES:ThreadAttach[] = ['first', 'last']
+const SELF_LABELS:SelfLabel[] = ['sexual', 'nudity', 'porn', 'graphic-media']
+const THREADGATE_RULES:Record<string, string> = {
+    mentioned: 'app.bsky.feed.threadgate#mentionRule',
+    followers: 'app.bsky.feed.threadgate#followerRule',
+    following: 'app.bsky.feed.threadgate#followingRule'
+}
+
+// A Mastodon status has no CID, so its ID takes that field.
+const MASTODON_MARKERS = {
+    atUrlField: 'MASTODON_URL',
+    atUriField: 'MASTODON_URI',
+    atCidField: 'MASTODON_ID',
+    hashField: 'MASTODON_HASH',
+    documentUriField: 'MASTODON_DOCUMENT_URI',
+    repliesField: 'MASTODON_REPLIES'
+}
+
+const GRAPHEME_SEGMENTER = new Intl.Segmenter(undefined, {
+    granularity: 'grapheme'
+})
 
 const require = createRequire(import.meta.url)
-const yaml = require('js-yaml') as { load:(source:string)=>unknown }
+const yaml = require('js-yaml') as {
+    load:(source:string, options?:{ schema?:unknown })=>unknown
+    CORE_SCHEMA:unknown
+}
 
 const DEFAULT_IO:CliIO = {
     log: (...args:any[]) => { console.log(...args) },
@@ -124,383 +613,4936 @@ export async function publish (
     io:CliIO = DEFAULT_IO
 ):Promise<PublishSummary> {
     const cwd = resolve(options.cwd ?? process.cwd())
-    const envFromFile = await readEnvFile(cwd)
-    const env = {
-        ...envFromFile,
-        ...process.env
+    const limit = options.limit
+    if (limit != null && (!Number.isInteger(limit) || limit < 1)) {
+        throw new Error(
+            `Invalid limit "${String(limit)}". Use a whole number of 1 or more.`
+        )
     }
 
-    const loaded = await loadConfig(cwd, options.configPath)
-    const configDir = loaded.path == null ? cwd : dirname(loaded.path)
-    const mergedConfig:NoatConfig = {
-        ...loaded.config,
-        ...extractConfigOverrides(options)
-    }
-    const config = normalizeConfig({
-        configDir,
-        env,
-        config: mergedConfig
+    const run = await prepareRun(options, io)
+    const { env, repoRoot, postsRootSpecs } = run
+    const postPaths = selectPostPaths({
+        cwd,
+        repoRoot,
+        postsRootSpecs,
+        postPaths: run.postPaths,
+        paths: options.paths,
+        since: options.since
     })
 
-    if (options.verbose) {
-        const configuredPath = loaded.path ?? '(defaults only)'
-        io.log(`[noat] config file: ${configuredPath}`)
-        io.log(`[noat] posts dir: ${config.postsDir}`)
+    for (const account of run.accounts) {
+        const { stateDir } = resolveAccountConfig(run.config, account)
+        if (await readJournal(stateDir) != null) {
+            throw new Error(
+                'A previous publish did not finish. Run "noat resume" to ' +
+                'finish it before publishing new posts.'
+            )
+        }
     }
 
-    const repoRoot = getRepoRoot(cwd)
-    const postsRelativeToRepo = toGitPath(relative(repoRoot, config.postsDir))
+    const counts = {
+        totalPosts: 0,
+        skippedPosts: 0,
+        draftPosts: 0,
+        scheduledPosts: 0,
+        queuedPosts: 0
+    }
+    const plans:Array<{ config:ResolvedConfig, drafts:DraftPost[] }> = []
+
+    const accounts:Array<{
+        config:ResolvedConfig
+        accountPaths:string[]
+        drafts:DraftPost[]
+        held:Array<PostHold & { path:string }>
+    }> = []
+    for (const account of run.accounts) {
+        const config = resolveAccountConfig(run.config, account)
+        const accountPaths = selectAccountPosts(run, account, postPaths)
+        accounts.push({
+            config,
+            accountPaths,
+            ...await buildDrafts({
+                repoRoot,
+                config,
+                postPaths: accountPaths,
+                postsRootSpecs,
+                verbose: options.verbose === true,
+                io
+            })
+        })
+    }
 
-    if (postsRelativeToRepo.startsWith('../') || postsRelativeToRepo === '..') {
-        throw new Error(
-            'Configured postsDir must be inside the git repo. ' +
-            `Received "${config.postsDir}"`
-        )
+    // The limit is for the whole run, and a post going to several accounts
+    // takes one place in it.
+    let allowedPaths:Set<string>|null = null
+    if (limit != null) {
+        const readyPaths = [...new Set(sortOldestFirst(
+            accounts.flatMap(({ drafts }) => drafts),
+            repoRoot,
+            postsRootSpecs
+        ).map(draft => draft.path))]
+        allowedPaths = new Set(readyPaths.slice(0, limit))
+
+        const deferred = readyPaths.length - allowedPaths.size
+        if (deferred > 0) {
+            io.log(
+                `[noat] limit of ${String(limit)} reached, leaving ` +
+                `${deferred} post${deferred === 1 ? '' : 's'} for a later run`
+            )
+        }
     }
 
-    const postsRootSpec = postsRelativeToRepo === '' ? '.' : postsRelativeToRepo
-    const postPaths = listMarkdownPosts(repoRoot, postsRootSpec)
-    const drafts = buildDrafts({
-        repoRoot,
-        config,
-        postPaths,
-        postsRootSpec
-    })
+    // Each account publishes on its own, so a post going to two accounts
+    // is counted once for each of them.
+    for (const { config, accountPaths, held, ...built } of accounts) {
+        const drafts = allowedPaths == null
+            ? built.drafts
+            : sortOldestFirst(built.drafts, repoRoot, postsRootSpecs)
+                .filter(draft => allowedPaths?.has(draft.path))
+        counts.totalPosts += accountPaths.length
+        counts.skippedPosts += accountPaths.length - built.drafts.length -
+            held.length
+        counts.draftPosts += held.filter(post => {
+            return post.reason === 'draft'
+        }).length
+        counts.scheduledPosts += held.filter(post => {
+            return post.reason === 'scheduled'
+        }).length
+        counts.queuedPosts += drafts.length
+
+        if (options.verbose === true || options.dryRun === true) {
+            for (const post of held) {
+                io.log(`[noat] skipping ${post.path}: ${post.detail}`)
+            }
+        }
+
+        for (const draft of drafts) {
+            if (draft.createdAt == null) continue
+            io.error(
+                `[noat] warning: ${draft.path} is backdated to ` +
+                `${draft.createdAt}. Bluesky will show it as backdated.`
+            )
+        }
+
+        if (drafts.length > 0) plans.push({ config, drafts })
+    }
 
-    if (drafts.length === 0) {
+    if (plans.length === 0) {
         io.log('[noat] no new posts found to publish')
         return {
             dryRun: options.dryRun === true,
-            totalPosts: postPaths.length,
-            skippedPosts: postPaths.length,
-            queuedPosts: 0,
+            ...counts,
             publishedPosts: 0
         }
     }
 
     if (options.dryRun === true) {
-        for (const draft of drafts) {
-            io.log(`[noat] dry-run would publish ${draft.path}`)
+        for (const { config, drafts } of plans) {
+            for (const draft of drafts) {
+                const thread = draft.replies.length > 0
+                    ? ` (thread of ${draft.replies.length + 1} posts)`
+                    : ''
+                io.log(
+                    `[noat] dry-run would publish ${draft.path}${thread}` +
+                    describeAccount(run.config, config)
+                )
+            }
         }
 
         return {
             dryRun: true,
-            totalPosts: postPaths.length,
-            skippedPosts: postPaths.length - drafts.length,
-            queuedPosts: drafts.length,
+            ...counts,
             publishedPosts: 0
         }
     }
 
     assertGitRepoClean(repoRoot)
 
-    const password = resolveString(env[config.passwordEnvVar])
-    if (password == null) {
-        throw new Error(
-            `Missing password. Set ${config.passwordEnvVar} ` +
-            'in .env or environment.'
-        )
-    }
-
-    const fetchImpl = resolveFetchImplementation()
-    const session = await createSession({
-        fetchImpl,
-        handle: config.handle,
-        password,
-        pdsUrl: config.pdsUrl
-    })
-
     let publishedCount = 0
-    const changedPaths:string[] = []
+    for (const { config, drafts } of plans) {
+        const target = getPublishTarget(config.target)
+        const session = await target.authenticate({
+            env,
+            config,
+            verbose: options.verbose === true,
+            io
+        })
 
-    for (const draft of drafts) {
-        const result = await publishDraft({
-            fetchImpl,
-            pdsUrl: config.pdsUrl,
+        publishedCount += await publishJournal({
+            target,
             session,
-            draft
-        })
-        const blueskyUrl = toBlueskyPostUrl(config.handle, result.uri)
-        const changed = await writePublishedAtUrl({
+            config,
             repoRoot,
-            postPath: draft.path,
-            atUrl: blueskyUrl
+            journal: {
+                queue: drafts.map(draft => draft.path),
+                posts: {}
+            },
+            drafts,
+            io
         })
-        if (changed) changedPaths.push(draft.path)
-
-        publishedCount += 1
-        io.log(`[noat] published ${draft.path} -> ${blueskyUrl}`)
     }
 
-    const commitMessage = commitPublishedPosts(repoRoot, changedPaths)
-    io.log(`[noat] committed publish metadata: ${commitMessage}`)
-
     return {
         dryRun: false,
-        totalPosts: postPaths.length,
-        skippedPosts: postPaths.length - drafts.length,
-        queuedPosts: drafts.length,
+        ...counts,
         publishedPosts: publishedCount
     }
 }
 
-function resolveFetchImplementation ():FetchLike {
-    const fetchImpl = (globalThis as Record<string, unknown>).fetch
-    if (typeof fetchImpl !== 'function') {
-        throw new Error('Global fetch API is unavailable. Use Node.js 18+.')
-    }
-
-    return fetchImpl as FetchLike
+function describeAccount (
+    config:ResolvedConfig,
+    accountConfig:ResolvedConfig
+):string {
+    return config.accounts.length > 1 ? ` as ${accountConfig.handle}` : ''
 }
 
-async function createSession (params:{
-    fetchImpl:FetchLike
-    pdsUrl:string
-    handle:string
-    password:string
-}):Promise<BlueskySession> {
-    const url = `${trimTrailingSlash(params.pdsUrl)}` +
-        '/xrpc/com.atproto.server.createSession'
-    const response = await params.fetchImpl(url, {
-        method: 'POST',
-        headers: {
-            'content-type': 'application/json'
-        },
-        body: JSON.stringify({
-            identifier: params.handle,
-            password: params.password
-        })
-    })
-
-    const json = await parseJsonResponse(response, 'create session')
-    const accessJwt = resolveString(json.accessJwt)
-    const did = resolveString(json.did)
+export async function update (
+    options:PublishOptions = {},
+    io:CliIO = DEFAULT_IO
+):Promise<UpdateSummary> {
+    const run = await prepareRun(options, io)
+    const { env, repoRoot, postsRootSpecs, postPaths } = run
+    const changed:Array<{
+        config:ResolvedConfig
+        draft:DraftPost
+        ref:PublishedRef
+    }> = []
+    let publishedCount = 0
 
-    if (accessJwt == null || did == null) {
-        throw new Error('Bluesky session response missing "accessJwt" or "did"')
-    }
+    for (const account of run.accounts) {
+        const config = resolveAccountConfig(run.config, account)
+
+        for (const postPath of postPaths) {
+            const source = readPostSource(repoRoot, postPath)
+            if (!isPublished(source.frontmatter, config)) continue
+            publishedCount += 1
+            const ref = getPublishTarget(config.target).readRef({
+                frontmatter: source.frontmatter,
+                config,
+                postPath
+            })
+
+            const previousHash = resolveString(
+                getNestedField(source.frontmatter, config.hashField)
+            )
+            if (previousHash == null && options.force !== true) {
+                if (options.verbose) {
+                    io.log(
+                        `[noat] skipping ${postPath}: no ${config.hashField} ` +
+                        'recorded. Use --force to update it anyway.'
+                    )
+                }
+                continue
+            }
 
-    return { accessJwt, did }
-}
+            const documentUri = resolveString(
+                getNestedField(source.frontmatter, config.documentUriField)
+            )
+            const draft = buildDraft({
+                repoRoot,
+                config,
+                postsRootSpec: findPostsRootSpec(postsRootSpecs, postPath),
+                postPath,
+                ...source,
+                ...(documentUri == null
+                    ? {}
+                    : { documentRkey: parseAtUri(documentUri).rkey }),
+                io
+            })
+            if (draft.contentHash === previousHash && options.force !== true) {
+                continue
+            }
+            // Checked before anything is sent, so a thread found later in
+            // the run cannot stop it half way.
+            if (draft.replies.length > 0) {
+                throw new Error(
+                    `Cannot update "${postPath}": posts published as a ` +
+                    'thread cannot be updated in place.'
+                )
+            }
 
-async function publishDraft (params:{
-    fetchImpl:FetchLike
-    pdsUrl:string
-    session:BlueskySession
-    draft:DraftPost
-}):Promise<CreateRecordResponse> {
-    let blob:BlueskyBlob | undefined
+            await fitDraftImages({
+                draft,
+                config,
+                verbose: options.verbose === true,
+                io
+            })
+            changed.push({
+                config,
+                draft,
+                ref
+            })
+        }
+    }
 
-    if (params.draft.image != null) {
-        blob = await uploadBlob({
-            fetchImpl: params.fetchImpl,
-            pdsUrl: params.pdsUrl,
-            session: params.session,
-            bytes: params.draft.image.bytes,
-            mimeType: params.draft.image.mimeType
-        })
+    const summary:UpdateSummary = {
+        dryRun: options.dryRun === true,
+        totalPosts: postPaths.length,
+        publishedPosts: publishedCount,
+        unchangedPosts: publishedCount - changed.length,
+        queuedPosts: changed.length,
+        updatedPosts: 0
     }
 
-    const record:JsonRecord = {
-        $type: 'app.bsky.feed.post',
-        text: params.draft.text,
-        createdAt: new Date().toISOString()
+    if (changed.length === 0) {
+        io.log('[noat] no changed posts found to update')
+        return summary
     }
 
-    if (params.draft.image != null && blob != null) {
-        record.embed = {
-            $type: 'app.bsky.embed.images',
-            images: [
-                {
-                    alt: params.draft.image.alt,
-                    image: blob
+    if (options.dryRun === true) {
+        for (const { config, draft } of changed) {
+            io.log(
+                `[noat] dry-run would update ${draft.path}` +
+                describeAccount(run.config, config)
+            )
+        }
+
+        return summary
+    }
+
+    assertGitRepoClean(repoRoot)
+
+    const changedPaths:string[] = []
+    const sessions = new Map<ResolvedConfig, unknown>()
+    let failure:unknown = null
+
+    for (const { config, draft, ref } of changed) {
+        try {
+            const target = getPublishTarget(config.target)
+            const session = sessions.get(config) ??
+                await target.authenticate({
+                    env,
+                    config,
+                    verbose: options.verbose === true,
+                    io
+                })
+            sessions.set(config, session)
+
+            const result = await target.updatePost({
+                session,
+                config,
+                draft,
+                ref
+            })
+            const didChange = await writeFrontmatterFields({
+                repoRoot,
+                postPath: draft.path,
+                fields: {
+                    [config.atUriField]: result.uri,
+                    [config.atCidField]: result.cid,
+                    [config.hashField]: draft.contentHash,
+                    ...(result.document == null
+                        ? {}
+                        : { [config.documentUriField]: result.document.uri })
+                }
+            })
+            if (didChange && !changedPaths.includes(draft.path)) {
+                changedPaths.push(draft.path)
+            }
+        } catch (error) {
+            failure = error
+            break
+        }
+
+        summary.updatedPosts += 1
+        io.log(`[noat] updated ${draft.path}`)
+    }
+
+    // Posts updated before a failure are live, so their new hashes are
+    // committed either way.
+    if (changedPaths.length > 0) {
+        const commitMessage = commitPublishedPosts(
+            repoRoot,
+            changedPaths,
+            UPDATE_COMMIT_PREFIX
+        )
+        io.log(`[noat] committed update metadata: ${commitMessage}`)
+    }
+
+    if (failure != null) {
+        const message = failure instanceof Error
+            ? failure.message
+            : String(failure)
+        throw new Error(
+            `${message}\nUpdated ${summary.updatedPosts} of ` +
+            `${changed.length} posts. Run "noat update" again for the rest.`
+        )
+    }
+
+    return summary
+}
+
+export async function unpublish (
+    options:PublishOptions = {},
+    io:CliIO = DEFAULT_IO
+):Promise<UnpublishSummary> {
+    const cwd = resolve(options.cwd ?? process.cwd())
+    const run = await prepareRun(options, io)
+    const { env, repoRoot, postPaths } = run
+    const knownPaths = new Set(postPaths)
+    const targets:Array<{
+        config:ResolvedConfig
+        path:string
+        ref:PublishedRef
+        documentUri:string|undefined
+    }> = []
+    const configs = run.accounts.map(account => {
+        return resolveAccountConfig(run.config, account)
+    })
+
+    for (const requested of options.paths ?? []) {
+        const postPath = toGitPath(relative(repoRoot, resolve(cwd, requested)))
+        if (!knownPaths.has(postPath)) {
+            throw new Error(
+                `"${requested}" is not a committed post in ` +
+                run.config.postsDir
+            )
+        }
+
+        const { frontmatter } = readPostSource(repoRoot, postPath)
+        const published = configs.filter(config => {
+            return isPublished(frontmatter, config)
+        })
+        if (published.length === 0) {
+            throw new Error(`"${postPath}" is not published.`)
+        }
+
+        for (const config of published) {
+            targets.push({
+                config,
+                path: postPath,
+                ref: getPublishTarget(config.target).readRef({
+                    frontmatter,
+                    config,
+                    postPath
+                }),
+                documentUri: resolveString(
+                    getNestedField(frontmatter, config.documentUriField)
+                )
+            })
+        }
+    }
+
+    const summary:UnpublishSummary = {
+        dryRun: options.dryRun === true,
+        queuedPosts: targets.length,
+        unpublishedPosts: 0
+    }
+
+    if (targets.length === 0) {
+        io.log('[noat] no posts given to unpublish')
+        return summary
+    }
+
+    if (options.dryRun === true) {
+        for (const target of targets) {
+            io.log(
+                `[noat] dry-run would unpublish ${target.path} ` +
+                `(${target.ref.source})`
+            )
+        }
+
+        return summary
+    }
+
+    assertGitRepoClean(repoRoot)
+
+    const changedPaths:string[] = []
+    const sessions = new Map<ResolvedConfig, unknown>()
+    let failure:unknown = null
+
+    for (const target of targets) {
+        const { config } = target
+        try {
+            const publishTarget = getPublishTarget(config.target)
+            const session = sessions.get(config) ??
+                await publishTarget.authenticate({
+                    env,
+                    config,
+                    verbose: options.verbose === true,
+                    io
+                })
+            sessions.set(config, session)
+
+            await publishTarget.deletePost({
+                session,
+                ref: target.ref,
+                documentUri: target.documentUri
+            })
+            const changed = await writeFrontmatterFields({
+                repoRoot,
+                postPath: target.path,
+                fields: {
+                    [config.atUrlField]: null,
+                    [config.atUriField]: null,
+                    [config.atCidField]: null,
+                    [config.hashField]: null,
+                    [config.repliesField]: null,
+                    [config.documentUriField]: null
+                }
+            })
+            if (changed && !changedPaths.includes(target.path)) {
+                changedPaths.push(target.path)
+            }
+        } catch (error) {
+            failure = error
+            break
+        }
+
+        summary.unpublishedPosts += 1
+        io.log(`[noat] unpublished ${target.path}`)
+    }
+
+    // Posts deleted before a failure are gone, so their markers are
+    // removed and committed either way.
+    if (changedPaths.length > 0) {
+        const commitMessage = commitPublishedPosts(
+            repoRoot,
+            changedPaths,
+            UNPUBLISH_COMMIT_PREFIX
+        )
+        io.log(`[noat] committed unpublish metadata: ${commitMessage}`)
+    }
+
+    if (failure != null) {
+        const message = failure instanceof Error
+            ? failure.message
+            : String(failure)
+        throw new Error(
+            `${message}\nUnpublished ${summary.unpublishedPosts} of ` +
+            `${targets.length} posts.`
+        )
+    }
+
+    return summary
+}
+
+function isPublished (
+    frontmatter:Record<string, unknown>,
+    config:ResolvedConfig
+):boolean {
+    return [
+        config.atUrlField,
+        config.atUriField,
+        config.atCidField
+    ].some(field => getNestedField(frontmatter, field) !== undefined)
+}
+
+/**
+ * Find the record of a published post, preferring the `at://` URI, which
+ * still works after a handle change, over the bsky.app URL.
+ */
+function getPublishedRef (
+    frontmatter:Record<string, unknown>,
+    config:ResolvedConfig,
+    postPath:string
+):PublishedRef {
+    const replies = readMarkerList(frontmatter, config.repliesField, postPath)
+        .map(reply => {
+            const parsed = parseAtUri(reply)
+            return { repo: parsed.repo, rkey: parsed.rkey, source: reply }
+        })
+    const thread = replies.length === 0 ? {} : { replies }
+
+    const atUri = resolveString(getNestedField(frontmatter, config.atUriField))
+    if (atUri != null) {
+        const parsed = parseAtUri(atUri)
+        return { repo: parsed.repo, rkey: parsed.rkey, source: atUri, ...thread }
+    }
+
+    const atUrl = resolveString(
+        getNestedField(frontmatter, config.atUrlField)
+    )
+    if (atUrl != null) {
+        return {
+            rkey: parseBlueskyPostUrl(atUrl).rkey,
+            source: atUrl,
+            ...thread
+        }
+    }
+
+    throw new Error(
+        `Post "${postPath}" is marked as published, but has no ` +
+        `${config.atUriField} or ${config.atUrlField} to find its record.`
+    )
+}
+
+function readMarkerList (
+    frontmatter:Record<string, unknown>,
+    field:string,
+    postPath:string
+):string[] {
+    const value = getNestedField(frontmatter, field)
+    if (value == null) return []
+    if (!Array.isArray(value) || !value.every(item => {
+        return typeof item === 'string'
+    })) {
+        throw new Error(
+            `Post "${postPath}" has an invalid ${field}. It should be the ` +
+            'list noat wrote when it published the thread.'
+        )
+    }
+
+    return value
+}
+
+function assertOwnRecord (ref:PublishedRef, session:BlueskySession):void {
+    if (ref.repo != null && ref.repo !== session.did) {
+        throw new Error(
+            `Record ${ref.source} belongs to ${ref.repo}, ` +
+            `not the logged in account ${session.did}`
+        )
+    }
+}
+
+function selectPostPaths (params:{
+    cwd:string
+    repoRoot:string
+    postsRootSpecs:string[]
+    postPaths:string[]
+    paths?:string[]
+    since?:string
+}):string[] {
+    let selected = params.postPaths
+
+    if (params.paths != null && params.paths.length > 0) {
+        const matched = new Set<string>()
+        for (const requested of params.paths) {
+            const pattern = toGitPath(
+                relative(params.repoRoot, resolve(params.cwd, requested))
+            )
+            const matcher = globToRegExp(pattern)
+            const matches = params.postPaths.filter(postPath => {
+                return postPath === pattern || matcher.test(postPath)
+            })
+            if (matches.length === 0) {
+                throw new Error(
+                    `"${requested}" does not match any committed post in ` +
+                    params.postsRootSpecs.join(', ')
+                )
+            }
+            for (const postPath of matches) matched.add(postPath)
+        }
+        selected = selected.filter(postPath => matched.has(postPath))
+    }
+
+    if (params.since != null) {
+        const added = new Set(readGitText(params.repoRoot, [
+            'log',
+            '--diff-filter=A',
+            '--name-only',
+            '--format=',
+            `${params.since}..HEAD`,
+            '--',
+            ...params.postsRootSpecs
+        ]).split('\n').map(path => path.trim()).filter(Boolean))
+        selected = selected.filter(postPath => added.has(postPath))
+    }
+
+    return selected
+}
+
+export function globToRegExp (pattern:string):RegExp {
+    let source = ''
+    let inGroup = false
+
+    for (let index = 0; index < pattern.length; index++) {
+        const char = pattern[index]
+        if (char === '*' && pattern[index + 1] === '*') {
+            const slash = pattern[index + 2] === '/'
+            source += slash ? '(?:.*/)?' : '.*'
+            index += slash ? 2 : 1
+        } else if (char === '*') {
+            source += '[^/]*'
+        } else if (char === '?') {
+            source += '[^/]'
+        } else if (char === '{') {
+            inGroup = true
+            source += '(?:'
+        } else if (char === '}' && inGroup) {
+            inGroup = false
+            source += ')'
+        } else if (char === ',' && inGroup) {
+            source += '|'
+        } else {
+            source += char.replace(/[.+^$()|[\]\\]/g, '\\$&')
+        }
+    }
+
+    return new RegExp(`^${source}$`)
+}
+
+function sortOldestFirst (
+    drafts:DraftPost[],
+    repoRoot:string,
+    postsRootSpecs:string[]
+):DraftPost[] {
+    const addedAt = new Map<string, number>()
+    let timestamp = 0
+    const output = readGitText(repoRoot, [
+        'log',
+        '--diff-filter=A',
+        '--name-only',
+        '--format=%x00%ct',
+        'HEAD',
+        '--',
+        ...postsRootSpecs
+    ])
+
+    // Newest commits come first, so later lines win with the oldest time.
+    for (const line of output.split('\n')) {
+        if (line.startsWith('\0')) {
+            timestamp = Number(line.slice(1))
+        } else if (line.trim() !== '') {
+            addedAt.set(line.trim(), timestamp)
+        }
+    }
+
+    return [...drafts].sort((a, b) => {
+        const difference = (addedAt.get(a.path) ?? 0) - (addedAt.get(b.path) ?? 0)
+        return difference !== 0 ? difference : a.path.localeCompare(b.path)
+    })
+}
+
+export async function resume (
+    options:PublishOptions = {},
+    io:CliIO = DEFAULT_IO
+):Promise<PublishSummary> {
+    const run = await prepareRun(options, io)
+    const { env, repoRoot, postsRootSpecs, postPaths } = run
+    const pending:Array<{ config:ResolvedConfig, journal:PublishJournal }> = []
+
+    for (const account of run.accounts) {
+        const config = resolveAccountConfig(run.config, account)
+        const journal = await readJournal(config.stateDir)
+        if (journal != null) pending.push({ config, journal })
+    }
+
+    const queued = pending.flatMap(({ journal }) => journal.queue)
+    const summary:PublishSummary = {
+        dryRun: options.dryRun === true,
+        totalPosts: postPaths.length,
+        skippedPosts: 0,
+        draftPosts: 0,
+        scheduledPosts: 0,
+        queuedPosts: queued.length,
+        publishedPosts: 0
+    }
+
+    if (pending.length === 0) {
+        io.log('[noat] no unfinished publish run found')
+        return summary
+    }
+
+    if (options.dryRun === true) {
+        for (const { config, journal } of pending) {
+            for (const path of journal.queue) {
+                const records = journal.posts[path]?.records ?? []
+                const created = records.filter(record => record.uri != null)
+                const progress = created.length > 0
+                    ? ` (${created.length} of ${records.length} ` +
+                        'records created)'
+                    : ''
+                io.log(
+                    `[noat] dry-run would resume ${path}${progress}` +
+                    describeAccount(run.config, config)
+                )
+            }
+        }
+
+        return summary
+    }
+
+    assertGitRepoClean(repoRoot, queued)
+
+    for (const { config, journal } of pending) {
+        const { drafts } = await buildDrafts({
+            repoRoot,
+            config,
+            postPaths: journal.queue.filter(path => postPaths.includes(path)),
+            postsRootSpecs,
+            journal,
+            verbose: options.verbose === true,
+            io
+        })
+
+        const target = getPublishTarget(config.target)
+        const session = await target.authenticate({
+            env,
+            config,
+            verbose: options.verbose === true,
+            io
+        })
+
+        summary.publishedPosts += await publishJournal({
+            target,
+            session,
+            config,
+            repoRoot,
+            journal,
+            drafts,
+            io
+        })
+    }
+
+    return summary
+}
+
+/**
+ * Publish the queued posts of a journal in order. Each post's record keys
+ * are written to the journal before its records are created, and its
+ * frontmatter right after. Whatever finished is committed even when a later
+ * post fails; the rest stays in the journal for `noat resume`.
+ */
+async function publishJournal (params:{
+    target:PublishTarget
+    session:unknown
+    config:ResolvedConfig
+    repoRoot:string
+    journal:PublishJournal
+    drafts:DraftPost[]
+    io:CliIO
+}):Promise<number> {
+    const { config, journal } = params
+    const draftsByPath = new Map(params.drafts.map(draft => [draft.path, draft]))
+    const save = () => writeStateFile(config.stateDir, JOURNAL_STATE_FILE, journal)
+    const donePaths:string[] = []
+    let publishedCount = 0
+    let failure:unknown = null
+
+    await save()
+
+    for (const path of journal.queue) {
+        const draft = draftsByPath.get(path)
+        let entry = journal.posts[path]
+
+        if (entry == null || !isJournalPostComplete(entry)) {
+            if (draft == null) {
+                const created = entry?.records.some(record => {
+                    return record.uri != null
+                }) === true || entry?.document?.uri != null
+                if (created) {
+                    failure = new Error(
+                        `"${path}" was partly published, but is no longer ` +
+                        'a post to publish. Restore it to finish the publish.'
+                    )
+                    break
+                }
+
+                // Published or removed before any of it was posted.
+                donePaths.push(path)
+                continue
+            }
+
+            if (entry != null && entry.contentHash !== draft.contentHash) {
+                failure = new Error(
+                    `"${path}" changed since it was partly published. ` +
+                    'Restore it to finish the publish.'
+                )
+                break
+            }
+
+            if (entry == null) {
+                entry = {
+                    contentHash: draft.contentHash,
+                    records: [draft, ...draft.replies].map(() => ({
+                        rkey: createTid()
+                    })),
+                    ...(draft.document == null
+                        ? {}
+                        : { document: { rkey: draft.document.rkey } })
                 }
-            ]
+                journal.posts[path] = entry
+                await save()
+            }
+
+            try {
+                await params.target.createPost({
+                    session: params.session,
+                    config,
+                    draft,
+                    post: entry,
+                    save
+                })
+            } catch (error) {
+                failure = error
+                break
+            }
+        }
+
+        const root = toCreateRecordResponse(entry.records[0])
+        const postUrl = params.target.getPostUrl({
+            session: params.session,
+            config,
+            post: root
+        })
+        await writeFrontmatterFields({
+            repoRoot: params.repoRoot,
+            postPath: path,
+            fields: {
+                [config.atUrlField]: postUrl,
+                [config.atUriField]: root.uri,
+                [config.atCidField]: root.cid,
+                [config.hashField]: entry.contentHash,
+                ...(entry.records.length === 1
+                    ? {}
+                    : {
+                        [config.repliesField]: entry.records.slice(1)
+                            .map(record => params.target.toMarker(
+                                toCreateRecordResponse(record)
+                            ))
+                    }),
+                ...(entry.document?.uri == null
+                    ? {}
+                    : { [config.documentUriField]: entry.document.uri })
+            }
+        })
+        donePaths.push(path)
+
+        publishedCount += 1
+        params.io.log(`[noat] published ${path} -> ${postUrl}`)
+    }
+
+    // A crash after the frontmatter was written leaves it uncommitted, and
+    // writing it again on resume changes nothing, so compare with HEAD.
+    const changedPaths = donePaths.filter(path => {
+        return hasUncommittedChanges(params.repoRoot, path)
+    })
+    if (changedPaths.length > 0) {
+        const commitMessage = commitPublishedPosts(params.repoRoot, changedPaths)
+        params.io.log(`[noat] committed publish metadata: ${commitMessage}`)
+    }
+
+    if (failure == null) {
+        await rm(resolve(config.stateDir, JOURNAL_STATE_FILE), { force: true })
+        return publishedCount
+    }
+
+    journal.queue = journal.queue.filter(path => !donePaths.includes(path))
+    for (const path of donePaths) delete journal.posts[path]
+    await save()
+
+    const message = failure instanceof Error ? failure.message : String(failure)
+    throw new Error(
+        `${message}\nPublished ${publishedCount} of ` +
+        `${publishedCount + journal.queue.length} posts. ` +
+        'Run "noat resume" to finish the rest.'
+    )
+}
+
+async function readJournal (stateDir:string):Promise<PublishJournal|null> {
+    const journal = await readStateFile(stateDir, JOURNAL_STATE_FILE)
+    if (
+        journal == null ||
+        !Array.isArray(journal.queue) ||
+        journal.posts == null ||
+        typeof journal.posts !== 'object'
+    ) {
+        return null
+    }
+
+    return journal as unknown as PublishJournal
+}
+
+function isJournalPostComplete (entry:JournalPost):boolean {
+    return (entry.document == null || entry.document.uri != null) &&
+        entry.records.every(record => (
+            record.uri != null &&
+            record.cid != null &&
+            record.gated !== false
+        ))
+}
+
+function readTidDate (tid:string):string {
+    let value = 0n
+    for (const char of tid) {
+        value = (value << 5n) | BigInt(TID_ALPHABET.indexOf(char))
+    }
+
+    return new Date(Number((value >> 10n) / 1000n)).toISOString()
+}
+
+function toCreateRecordResponse (record:JournalRecord):CreateRecordResponse {
+    if (record.uri == null || record.cid == null) {
+        throw new Error(`Record ${record.rkey} has not been created yet`)
+    }
+
+    return { uri: record.uri, cid: record.cid }
+}
+
+/**
+ * A new timestamp identifier (TID) to use as a record key, so the key of a
+ * record is known before it is created. Later calls sort after earlier ones.
+ */
+export function createTid (now:number = Date.now()):string {
+    let micros = now * 1000
+    if (micros <= lastTidMicros) micros = lastTidMicros + 1
+    lastTidMicros = micros
+
+    let value = (BigInt(micros) << 10n) | BigInt(TID_CLOCK_ID)
+    let tid = ''
+    for (let index = 0; index < 13; index++) {
+        tid = TID_ALPHABET[Number(value & 31n)] + tid
+        value >>= 5n
+    }
+
+    return tid
+}
+
+export async function login (
+    options:PublishOptions = {},
+    io:CliIO = DEFAULT_IO
+):Promise<LoginSummary> {
+    const resolved = await resolveRunConfig(options, io, true)
+    const candidates = selectAccounts(resolved.config, options.account)
+        .filter(candidate => candidate.target === 'bluesky')
+    const account = candidates.find(candidate => candidate.default) ??
+        candidates[0]
+    if (account == null) {
+        throw new Error(
+            'Login is only for Bluesky accounts. Mastodon accounts use the ' +
+            'access token in their tokenEnvVar.'
+        )
+    }
+    const config = resolveAccountConfig(resolved.config, account)
+    const fetchImpl = resolveFetchImplementation()
+
+    const identity = await resolveIdentity({
+        fetchImpl,
+        handle: config.handle,
+        plcDirectoryUrl: config.plcDirectoryUrl,
+        handleResolverUrl: config.handleResolverUrl
+    })
+    const pdsUrl = config.pdsUrl ?? identity.pdsUrl
+    const server = await fetchOAuthServerMetadata(fetchImpl, pdsUrl)
+
+    if (options.verbose) {
+        io.log(`[noat] ${config.handle} is ${identity.did} on ${pdsUrl}`)
+        io.log(`[noat] OAuth server: ${server.issuer}`)
+    }
+
+    const signer = createDpopSigner()
+    const dpopFetch = createDpopFetch(fetchImpl, signer)
+    const callback = await startOAuthCallbackServer()
+
+    try {
+        const clientId = buildLoopbackClientId(callback.redirectUri)
+        const pkce = createPkcePair()
+        const state = randomBytes(16).toString('base64url')
+
+        const par = await postOAuthForm({
+            fetchImpl: dpopFetch,
+            url: server.parEndpoint,
+            form: {
+                client_id: clientId,
+                response_type: 'code',
+                code_challenge: pkce.challenge,
+                code_challenge_method: 'S256',
+                redirect_uri: callback.redirectUri,
+                scope: OAUTH_SCOPE,
+                state,
+                login_hint: config.handle
+            },
+            context: 'OAuth pushed authorization request'
+        })
+        const requestUri = resolveString(par.json.request_uri)
+        if (!par.ok || requestUri == null) {
+            throw new Error(
+                'OAuth pushed authorization request failed: ' +
+                `${String(par.json.error_description ?? par.json.error)}`
+            )
+        }
+
+        const authorizeUrl = `${server.authorizationEndpoint}?` +
+            new URLSearchParams({
+                client_id: clientId,
+                request_uri: requestUri
+            }).toString()
+        io.log('[noat] open this URL in a browser to log in:')
+        io.log(authorizeUrl)
+
+        const params = await callback.waitForCallback(OAUTH_LOGIN_TIMEOUT_MS)
+        const error = params.get('error')
+        if (error != null) {
+            const description = params.get('error_description')
+            throw new Error(
+                `OAuth login failed: ${description ?? error}`
+            )
+        }
+        if (params.get('state') !== state) {
+            throw new Error('OAuth login failed: state does not match')
+        }
+        if (params.get('iss') !== server.issuer) {
+            throw new Error('OAuth login failed: issuer does not match')
+        }
+
+        const code = params.get('code')
+        if (code == null) {
+            throw new Error('OAuth login failed: missing authorization code')
+        }
+
+        const now = Date.now()
+        const token = await postOAuthForm({
+            fetchImpl: dpopFetch,
+            url: server.tokenEndpoint,
+            form: {
+                grant_type: 'authorization_code',
+                code,
+                redirect_uri: callback.redirectUri,
+                code_verifier: pkce.verifier,
+                client_id: clientId
+            },
+            context: 'OAuth token request'
+        })
+        if (!token.ok) {
+            throw new Error(
+                'OAuth token request failed: ' +
+                `${String(token.json.error_description ?? token.json.error)}`
+            )
+        }
+
+        await writeOAuthSession(config.stateDir, {
+            did: identity.did,
+            handle: config.handle,
+            pdsUrl,
+            issuer: server.issuer,
+            tokenEndpoint: server.tokenEndpoint,
+            clientId,
+            ...parseTokenResponse({ json: token.json, did: identity.did, now }),
+            dpopKey: signer.key.export({ format: 'jwk' })
+        })
+    } finally {
+        callback.close()
+    }
+
+    return { did: identity.did, handle: config.handle, pdsUrl }
+}
+
+async function resolveRunConfig (
+    options:PublishOptions,
+    io:CliIO,
+    loginOnly = false
+):Promise<{
+    cwd:string
+    env:Record<string, string|undefined>
+    config:ResolvedConfig
+}> {
+    const cwd = resolve(options.cwd ?? process.cwd())
+    const envFromFile = await readEnvFile(cwd)
+    const env = {
+        ...envFromFile,
+        ...process.env
+    }
+
+    const loaded = await loadConfig(cwd, options.configPath)
+    const configDir = loaded.path == null ? cwd : dirname(loaded.path)
+    const mergedConfig:NoatConfig = {
+        ...loaded.config,
+        ...extractConfigOverrides(options)
+    }
+    const config = normalizeConfig({
+        configDir,
+        env,
+        config: mergedConfig,
+        loginOnly
+    })
+
+    if (options.verbose) {
+        const configuredPath = loaded.path ?? '(defaults only)'
+        io.log(`[noat] config file: ${configuredPath}`)
+        io.log(`[noat] posts dir: ${config.postsDir}`)
+    }
+
+    return { cwd, env, config }
+}
+
+async function prepareRun (
+    options:PublishOptions,
+    io:CliIO
+):Promise<RunContext> {
+    const { cwd, env, config } = await resolveRunConfig(options, io)
+
+    const repoRoot = getRepoRoot(cwd)
+    const postsRootSpecs = unique(config.accounts.map(account => {
+        return toPostsRootSpec(repoRoot, account.postsDir)
+    }))
+    const postPaths = unique(postsRootSpecs.flatMap(postsRootSpec => {
+        return listMarkdownPosts(repoRoot, postsRootSpec)
+    })).sort((a, b) => a.localeCompare(b))
+
+    const accounts = selectAccounts(config, options.account)
+
+    return { env, config, repoRoot, postsRootSpecs, postPaths, accounts }
+}
+
+function selectAccounts (
+    config:ResolvedConfig,
+    name?:string
+):ResolvedAccount[] {
+    if (name == null) return config.accounts
+
+    const account = config.accounts.find(candidate => candidate.name === name)
+    if (account == null) {
+        throw new Error(
+            `Unknown account "${name}". Use one of: ` +
+            config.accounts.map(candidate => candidate.name).join(', ')
+        )
+    }
+
+    return [account]
+}
+
+function selectAccountPosts (
+    run:RunContext,
+    account:ResolvedAccount,
+    postPaths:string[]
+):string[] {
+    return postPaths.filter(postPath => resolvePostAccounts({
+        repoRoot: run.repoRoot,
+        config: run.config,
+        postPath,
+        frontmatter: readPostSource(run.repoRoot, postPath).frontmatter
+    }).some(candidate => candidate.name === account.name))
+}
+
+function toPostsRootSpec (repoRoot:string, postsDir:string):string {
+    const postsRelativeToRepo = toGitPath(relative(repoRoot, postsDir))
+
+    if (postsRelativeToRepo.startsWith('../') || postsRelativeToRepo === '..') {
+        throw new Error(
+            'Configured postsDir must be inside the git repo. ' +
+            `Received "${postsDir}"`
+        )
+    }
+
+    return postsRelativeToRepo === '' ? '.' : postsRelativeToRepo
+}
+
+/**
+ * The posts dir a post belongs to, which its backlink is relative to. When
+ * posts dirs are nested, the innermost one wins.
+ */
+function findPostsRootSpec (
+    postsRootSpecs:string[],
+    postPath:string
+):string {
+    const containing = postsRootSpecs.filter(postsRootSpec => {
+        const postsRoot = normalizePostsRoot(postsRootSpec)
+        return postsRoot === '' || postPath.startsWith(`${postsRoot}/`)
+    })
+
+    return containing.sort((a, b) => b.length - a.length)[0] ?? '.'
+}
+
+export function resolvePostAccounts (params:{
+    repoRoot:string
+    config:ResolvedConfig
+    postPath:string
+    frontmatter:Record<string, unknown>
+}):ResolvedAccount[] {
+    const { config, postPath, frontmatter } = params
+    const value = getNestedField(frontmatter, 'bluesky.accounts') ??
+        frontmatter.accounts
+
+    if (value == null) {
+        const postsRootSpec = findPostsRootSpec(
+            config.accounts.map(account => {
+                return toPostsRootSpec(params.repoRoot, account.postsDir)
+            }),
+            postPath
+        )
+        const home = config.accounts.find(account => {
+            return toPostsRootSpec(params.repoRoot, account.postsDir) ===
+                postsRootSpec
+        })
+        return home == null ? [] : [home]
+    }
+
+    return unique(
+        readStringList(value, 'accounts', `post "${postPath}"`)
+    ).map(name => {
+        const account = config.accounts.find(candidate => {
+            return candidate.name === name
+        })
+        if (account == null) {
+            throw new Error(
+                `Post "${postPath}" lists unknown account "${name}". ` +
+                'Use one of: ' +
+                config.accounts.map(candidate => candidate.name).join(', ')
+            )
+        }
+
+        return account
+    })
+}
+
+/**
+ * Use the OAuth login from `noat login` when there is one. Otherwise reuse
+ * the session cached in the state dir while the PDS accepts it, refresh it
+ * once it expires or is rejected, and only log in with the app password
+ * when there is no usable session or the refresh is rejected.
+ * Without an explicit `pdsUrl`, the PDS is discovered from the handle
+ * before logging in, and remembered with the cached session.
+ */
+async function openSession (params:{
+    env:Record<string, string|undefined>
+    config:ResolvedConfig
+    verbose:boolean
+    io:CliIO
+}):Promise<OpenedSession> {
+    const { config } = params
+    const log = (message:string) => {
+        if (params.verbose) params.io.log(`[noat] ${message}`)
+    }
+    const policy:RequestPolicy = {
+        retries: config.retries,
+        retryDelayMs: config.retryDelayMs,
+        timeoutMs: config.timeoutMs,
+        log
+    }
+    const baseFetch = resolveFetchImplementation()
+    const fetchImpl = createRequestFetch(baseFetch, policy)
+
+    const oauth = await readOAuthSession(config.stateDir, config.handle)
+    if (oauth != null) {
+        const opened = await openOAuthSession({
+            fetchImpl: baseFetch,
+            policy,
+            stateDir: config.stateDir,
+            stored: oauth
+        })
+        if (opened != null) {
+            log('using OAuth session')
+            return opened
+        }
+
+        log('OAuth session could not be refreshed, using app password')
+    }
+
+    const cacheKey = config.pdsUrl == null
+        ? config.handle
+        : `${config.handle}@${trimTrailingSlash(config.pdsUrl)}`
+
+    const cached = await readCachedSession(config.stateDir, cacheKey)
+    const now = Date.now()
+
+    // A token can be revoked before it expires, so the server has the last
+    // word on whether it still works.
+    if (
+        cached != null &&
+        !isJwtExpired(cached.accessJwt, now) &&
+        await checkSession({ fetchImpl, session: cached })
+    ) {
+        log('using cached session')
+        return { fetchImpl, session: cached, pdsUrl: cached.pdsUrl }
+    }
+
+    if (cached != null && !isJwtExpired(cached.refreshJwt, now)) {
+        const refreshed = await refreshSession({
+            fetchImpl,
+            pdsUrl: cached.pdsUrl,
+            refreshJwt: cached.refreshJwt
+        })
+
+        if (refreshed != null) {
+            await writeCachedSession(config.stateDir, cacheKey, refreshed)
+            log('refreshed cached session')
+            return { fetchImpl, session: refreshed, pdsUrl: refreshed.pdsUrl }
+        }
+
+        log('refresh token was rejected, logging in again')
+    }
+
+    const password = resolveString(params.env[config.passwordEnvVar])
+    if (password == null) {
+        throw new Error(
+            oauth == null
+                ? `Missing password. Set ${config.passwordEnvVar} ` +
+                    'in .env or environment, or run "noat login".'
+                : 'OAuth login has expired. Run "noat login" again ' +
+                    `or set ${config.passwordEnvVar}.`
+        )
+    }
+
+    let pdsUrl = config.pdsUrl
+    if (pdsUrl == null) {
+        const identity = await resolveIdentity({
+            fetchImpl: baseFetch,
+            handle: config.handle,
+            plcDirectoryUrl: config.plcDirectoryUrl,
+            handleResolverUrl: config.handleResolverUrl
+        })
+        pdsUrl = identity.pdsUrl
+        log(`resolved ${config.handle} to ${identity.did} on ${pdsUrl}`)
+    }
+
+    const session = await createSession({
+        fetchImpl,
+        handle: config.handle,
+        password,
+        pdsUrl
+    })
+    await writeCachedSession(config.stateDir, cacheKey, session)
+    log('created new session')
+
+    return { fetchImpl, session, pdsUrl }
+}
+
+async function readCachedSession (
+    stateDir:string,
+    cacheKey:string
+):Promise<StoredSession|null> {
+    const sessions = await readStateFile(stateDir, SESSION_STATE_FILE)
+    const entry = sessions?.[cacheKey]
+    if (entry == null || typeof entry !== 'object') return null
+
+    const pdsUrl = resolveString((entry as Record<string, unknown>).pdsUrl)
+    if (pdsUrl == null) return null
+
+    try {
+        return parseSessionResponse(entry as Record<string, unknown>, pdsUrl)
+    } catch (_error) {
+        return null
+    }
+}
+
+async function writeCachedSession (
+    stateDir:string,
+    cacheKey:string,
+    session:StoredSession
+):Promise<void> {
+    const sessions = await readStateFile(stateDir, SESSION_STATE_FILE) ?? {}
+    sessions[cacheKey] = session
+    await writeStateFile(stateDir, SESSION_STATE_FILE, sessions)
+}
+
+async function readStateFile (
+    stateDir:string,
+    name:string
+):Promise<Record<string, unknown>|null> {
+    const filePath = resolve(stateDir, name)
+    if (!existsSync(filePath)) return null
+
+    try {
+        const json = JSON.parse(await readFile(filePath, 'utf8'))
+        return json != null && typeof json === 'object' && !Array.isArray(json)
+            ? json as Record<string, unknown>
+            : null
+    } catch (_error) {
+        return null
+    }
+}
+
+/**
+ * Write a JSON file to the local state dir. The dir gets its own
+ * `.gitignore` so tokens are never committed and the repo stays clean.
+ */
+async function writeStateFile (
+    stateDir:string,
+    name:string,
+    value:unknown
+):Promise<void> {
+    await mkdir(stateDir, { recursive: true, mode: 0o700 })
+
+    const gitignorePath = resolve(stateDir, '.gitignore')
+    if (!existsSync(gitignorePath)) {
+        await writeFile(gitignorePath, '*\n', 'utf8')
+    }
+
+    await writeFile(
+        resolve(stateDir, name),
+        JSON.stringify(value, null, 2) + '\n',
+        { encoding: 'utf8', mode: 0o600 }
+    )
+}
+
+/**
+ * Read the `exp` claim of a JWT as epoch milliseconds. The signature is
+ * not checked; this only decides when to refresh.
+ */
+export function readJwtExpiry (token:string):number|null {
+    const payload = token.split('.')[1]
+    if (payload == null || payload === '') return null
+
+    try {
+        const json = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+        return typeof json?.exp === 'number' ? json.exp * 1000 : null
+    } catch (_error) {
+        return null
+    }
+}
+
+function isJwtExpired (token:string, now:number):boolean {
+    const expiry = readJwtExpiry(token)
+    return expiry == null || expiry - SESSION_EXPIRY_MARGIN_MS <= now
+}
+
+/**
+ * Wrap fetch with a timeout for each attempt, and retries with exponential
+ * backoff for network errors, timeouts and 5xx responses. A 429 waits
+ * until the `Retry-After` or `ratelimit-reset` time, unless that is further
+ * away than `MAX_RATE_LIMIT_WAIT_MS`.
+ * A write that is not safe to send twice passes `retry: false`: a timeout
+ * or 5xx may come after the server made the change, so only a 429 is
+ * retried. `timeoutMs` in `init` replaces the policy's timeout.
+ */
+export function createRequestFetch (
+    fetchImpl:FetchLike,
+    policy:RequestPolicy
+):FetchLike {
+    return async (url, init = {}) => {
+        const { retry, timeoutMs: requestTimeoutMs, ...request } = init
+        const method = typeof init.method === 'string' ? init.method : 'GET'
+        const label = `${method} ${describeRequestUrl(url)}`
+        const attempts = policy.retries + 1
+        const timeoutMs = typeof requestTimeoutMs === 'number'
+            ? requestTimeoutMs
+            : policy.timeoutMs
+
+        for (let attempt = 1; ; attempt++) {
+            let response:any
+            try {
+                response = await fetchImpl(url, {
+                    ...request,
+                    signal: init.signal ?? AbortSignal.timeout(timeoutMs)
+                })
+            } catch (error) {
+                const message = describeRequestError(error, timeoutMs)
+                if (attempt >= attempts || retry === false) {
+                    throw new Error(
+                        `Request ${label} failed after ${attempt} ` +
+                        `attempt${attempt === 1 ? '' : 's'}: ${message}`
+                    )
+                }
+
+                const delay = getRetryDelay({
+                    attempt,
+                    retryDelayMs: policy.retryDelayMs
+                })
+                policy.log?.(
+                    `retrying ${label} in ${formatDelay(delay)} ` +
+                    `(attempt ${attempt + 1} of ${attempts}): ${message}`
+                )
+                await sleep(delay)
+                continue
+            }
+
+            if (
+                !RETRY_STATUSES.has(response.status) ||
+                attempt >= attempts ||
+                (retry === false && response.status !== 429)
+            ) {
+                return response
+            }
+
+            const delay = getRetryDelay({
+                attempt,
+                retryDelayMs: policy.retryDelayMs,
+                headers: response.headers
+            })
+            if (delay > MAX_RATE_LIMIT_WAIT_MS) return response
+
+            policy.log?.(
+                `retrying ${label} in ${formatDelay(delay)} ` +
+                `(attempt ${attempt + 1} of ${attempts}): ` +
+                `status ${response.status}`
+            )
+            await sleep(delay)
+        }
+    }
+}
+
+export function getRetryDelay (params:{
+    attempt:number
+    retryDelayMs:number
+    headers?:{ get:(name:string)=>string|null }
+    now?:number
+}):number {
+    const now = params.now ?? Date.now()
+    const retryAfter = resolveString(params.headers?.get('retry-after'))
+    if (retryAfter != null) {
+        const seconds = Number(retryAfter)
+        const until = Number.isFinite(seconds)
+            ? seconds * 1000
+            : Date.parse(retryAfter) - now
+        if (Number.isFinite(until)) return Math.max(0, until)
+    }
+
+    const reset = Number(params.headers?.get('ratelimit-reset'))
+    if (Number.isFinite(reset) && reset > 0) {
+        return Math.max(0, reset * 1000 - now)
+    }
+
+    return params.retryDelayMs * 2 ** (params.attempt - 1)
+}
+
+function describeRequestUrl (url:string):string {
+    const { pathname } = new URL(url)
+    return pathname.startsWith('/xrpc/')
+        ? pathname.slice('/xrpc/'.length)
+        : pathname
+}
+
+function describeRequestError (error:unknown, timeoutMs:number):string {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+        return `timed out after ${formatDelay(timeoutMs)}`
+    }
+
+    const cause = (error as { cause?:unknown })?.cause
+    const message = error instanceof Error ? error.message : String(error)
+    return cause instanceof Error ? `${message} (${cause.message})` : message
+}
+
+function formatDelay (ms:number):string {
+    return `${(ms / 1000).toFixed(1)}s`
+}
+
+function resolveFetchImplementation ():FetchLike {
+    const fetchImpl = (globalThis as Record<string, unknown>).fetch
+    if (typeof fetchImpl !== 'function') {
+        throw new Error('Global fetch API is unavailable. Use Node.js 18+.')
+    }
+
+    return fetchImpl as FetchLike
+}
+
+async function createSession (params:{
+    fetchImpl:FetchLike
+    pdsUrl:string
+    handle:string
+    password:string
+}):Promise<StoredSession> {
+    const url = `${trimTrailingSlash(params.pdsUrl)}` +
+        '/xrpc/com.atproto.server.createSession'
+    const response = await params.fetchImpl(url, {
+        method: 'POST',
+        headers: {
+            'content-type': 'application/json'
+        },
+        body: JSON.stringify({
+            identifier: params.handle,
+            password: params.password
+        })
+    })
+
+    const json = await parseJsonResponse(response, 'create session')
+    return parseSessionResponse(json, params.pdsUrl)
+}
+
+/**
+ * Trade a refresh token for a new session. Returns `null` when the PDS
+ * rejects the token (expired or revoked), so the caller can log in again.
+ */
+async function refreshSession (params:{
+    fetchImpl:FetchLike
+    pdsUrl:string
+    refreshJwt:string
+}):Promise<StoredSession|null> {
+    const url = `${trimTrailingSlash(params.pdsUrl)}` +
+        '/xrpc/com.atproto.server.refreshSession'
+    const response = await params.fetchImpl(url, {
+        method: 'POST',
+        headers: {
+            authorization: `Bearer ${params.refreshJwt}`
+        }
+    })
+
+    if (response.status === 400 || response.status === 401) return null
+
+    const json = await parseJsonResponse(response, 'refresh session')
+    return parseSessionResponse(json, params.pdsUrl)
+}
+
+async function checkSession (params:{
+    fetchImpl:FetchLike
+    session:StoredSession
+}):Promise<boolean> {
+    const url = `${trimTrailingSlash(params.session.pdsUrl)}` +
+        '/xrpc/com.atproto.server.getSession'
+    const response = await params.fetchImpl(url, {
+        method: 'GET',
+        headers: {
+            authorization: toAuthorizationHeader(params.session)
+        }
+    })
+
+    if (response.status === 400 || response.status === 401) return false
+
+    await parseJsonResponse(response, 'check session')
+    return true
+}
+
+function parseSessionResponse (
+    json:Record<string, unknown>,
+    pdsUrl:string
+):StoredSession {
+    const accessJwt = resolveString(json.accessJwt)
+    const refreshJwt = resolveString(json.refreshJwt)
+    const did = resolveString(json.did)
+    const handle = resolveString(json.handle)
+
+    if (
+        accessJwt == null ||
+        refreshJwt == null ||
+        did == null ||
+        handle == null
+    ) {
+        throw new Error(
+            'Bluesky session response missing "accessJwt", "refreshJwt", ' +
+            '"did" or "handle"'
+        )
+    }
+
+    return { accessJwt, refreshJwt, did, handle, pdsUrl, tokenType: 'Bearer' }
+}
+
+function toAuthorizationHeader (session:BlueskySession):string {
+    return `${session.tokenType} ${session.accessJwt}`
+}
+
+export async function resolveIdentity (params:{
+    fetchImpl:FetchLike
+    handle:string
+    plcDirectoryUrl:string
+    handleResolverUrl:string
+    resolveTxt?:TxtResolver
+}):Promise<ResolvedIdentity> {
+    const did = params.handle.startsWith('did:')
+        ? params.handle
+        : await resolveHandleToDid(params)
+
+    const documentUrl = resolveDidDocumentUrl(did, params.plcDirectoryUrl)
+    const response = await params.fetchImpl(documentUrl, {
+        headers: { accept: 'application/json' },
+        signal: AbortSignal.timeout(IDENTITY_TIMEOUT_MS)
+    })
+    const document = await parseJsonResponse(response, `resolve ${did}`)
+    const pdsUrl = getPdsEndpoint(document)
+
+    if (pdsUrl == null) {
+        throw new Error(
+            `DID document for ${did} has no #atproto_pds service endpoint`
+        )
+    }
+
+    return { did, pdsUrl }
+}
+
+async function resolveHandleToDid (params:{
+    fetchImpl:FetchLike
+    handle:string
+    handleResolverUrl:string
+    resolveTxt?:TxtResolver
+}):Promise<string> {
+    const handle = params.handle.toLowerCase()
+    const lookupTxt = params.resolveTxt ?? resolveTxt
+
+    try {
+        const records = await lookupTxt(`_atproto.${handle}`)
+        for (const chunks of records) {
+            const value = chunks.join('')
+            if (value.startsWith('did=did:')) return value.slice('did='.length)
+        }
+    } catch (_error) {
+        // No TXT record; try the next method.
+    }
+
+    try {
+        const response = await params.fetchImpl(
+            `https://${handle}/.well-known/atproto-did`,
+            { signal: AbortSignal.timeout(IDENTITY_TIMEOUT_MS) }
+        )
+        if (response.ok) {
+            const value = (await response.text()).trim()
+            if (value.startsWith('did:')) return value
+        }
+    } catch (_error) {
+        // No well-known file; try the next method.
+    }
+
+    const url = `${trimTrailingSlash(params.handleResolverUrl)}` +
+        '/xrpc/com.atproto.identity.resolveHandle' +
+        `?handle=${encodeURIComponent(handle)}`
+    const response = await params.fetchImpl(url, {
+        signal: AbortSignal.timeout(IDENTITY_TIMEOUT_MS)
+    })
+    const json = await parseJsonResponse(response, `resolve handle ${handle}`)
+    const did = resolveString(json.did)
+
+    if (did == null) {
+        throw new Error(`Could not resolve handle "${handle}" to a DID`)
+    }
+
+    return did
+}
+
+export function resolveDidDocumentUrl (
+    did:string,
+    plcDirectoryUrl:string
+):string {
+    if (did.startsWith('did:plc:')) {
+        return `${trimTrailingSlash(plcDirectoryUrl)}/${did}`
+    }
+
+    if (did.startsWith('did:web:')) {
+        const [host, ...path] = did.slice('did:web:'.length)
+            .split(':')
+            .map(part => decodeURIComponent(part))
+        return path.length === 0
+            ? `https://${host}/.well-known/did.json`
+            : `https://${host}/${path.join('/')}/did.json`
+    }
+
+    throw new Error(`Unsupported DID method in "${did}"`)
+}
+
+export function getPdsEndpoint (document:Record<string, unknown>):string|null {
+    const services = Array.isArray(document.service) ? document.service : []
+
+    for (const service of services) {
+        if (service == null || typeof service !== 'object') continue
+        const id = resolveString(service.id)
+        if (id == null || !id.endsWith('#atproto_pds')) continue
+
+        const endpoint = resolveString(service.serviceEndpoint)
+        if (endpoint != null) return trimTrailingSlash(endpoint)
+    }
+
+    return null
+}
+
+async function fetchOAuthServerMetadata (
+    fetchImpl:FetchLike,
+    pdsUrl:string
+):Promise<OAuthServerMetadata> {
+    const resourceResponse = await fetchImpl(
+        `${trimTrailingSlash(pdsUrl)}/.well-known/oauth-protected-resource`,
+        { signal: AbortSignal.timeout(IDENTITY_TIMEOUT_MS) }
+    )
+    const resource = await parseJsonResponse(
+        resourceResponse,
+        'OAuth protected resource metadata'
+    )
+    const servers = Array.isArray(resource.authorization_servers)
+        ? resource.authorization_servers
+        : []
+    const issuer = resolveString(servers[0])
+    if (issuer == null) {
+        throw new Error(`PDS ${pdsUrl} does not list an OAuth server`)
+    }
+
+    const serverResponse = await fetchImpl(
+        `${trimTrailingSlash(issuer)}/.well-known/oauth-authorization-server`,
+        { signal: AbortSignal.timeout(IDENTITY_TIMEOUT_MS) }
+    )
+    const metadata = await parseJsonResponse(
+        serverResponse,
+        'OAuth authorization server metadata'
+    )
+    const authorizationEndpoint =
+        resolveString(metadata.authorization_endpoint)
+    const tokenEndpoint = resolveString(metadata.token_endpoint)
+    const parEndpoint =
+        resolveString(metadata.pushed_authorization_request_endpoint)
+
+    if (resolveString(metadata.issuer) !== issuer) {
+        throw new Error(
+            `OAuth server metadata issuer does not match "${issuer}"`
+        )
+    }
+    if (
+        authorizationEndpoint == null ||
+        tokenEndpoint == null ||
+        parEndpoint == null
+    ) {
+        throw new Error(
+            `OAuth server ${issuer} is missing the authorization, token ` +
+            'or pushed authorization request endpoint'
+        )
+    }
+
+    return { issuer, authorizationEndpoint, tokenEndpoint, parEndpoint }
+}
+
+/**
+ * Client ID for a native app without hosted client metadata. The
+ * authorization server derives the metadata from the query string.
+ */
+export function buildLoopbackClientId (redirectUri:string):string {
+    const query = new URLSearchParams({
+        redirect_uri: redirectUri,
+        scope: OAUTH_SCOPE
+    })
+    return `http://localhost?${query.toString()}`
+}
+
+function createPkcePair ():{ verifier:string, challenge:string } {
+    const verifier = randomBytes(32).toString('base64url')
+    const challenge = createHash('sha256')
+        .update(verifier)
+        .digest('base64url')
+    return { verifier, challenge }
+}
+
+function createDpopSigner (privateJwk?:JsonWebKey):DpopSigner {
+    const key = privateJwk == null
+        ? generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey
+        : createPrivateKey({ key: privateJwk, format: 'jwk' })
+    const { kty, crv, x, y } = createPublicKey(key).export({ format: 'jwk' })
+
+    return {
+        key,
+        publicJwk: { kty, crv, x, y },
+        nonces: new Map()
+    }
+}
+
+export function createDpopProof (params:{
+    signer:DpopSigner
+    method:string
+    url:string
+    accessToken?:string
+}):string {
+    const target = new URL(params.url)
+    const nonce = params.signer.nonces.get(target.origin)
+    const header = {
+        typ: 'dpop+jwt',
+        alg: 'ES256',
+        jwk: params.signer.publicJwk
+    }
+    const payload:Record<string, unknown> = {
+        jti: randomUUID(),
+        htm: params.method.toUpperCase(),
+        htu: `${target.origin}${target.pathname}`,
+        iat: Math.floor(Date.now() / 1000)
+    }
+    if (nonce != null) payload.nonce = nonce
+    if (params.accessToken != null) {
+        payload.ath = createHash('sha256')
+            .update(params.accessToken)
+            .digest('base64url')
+    }
+
+    const signingInput = [header, payload]
+        .map(part => Buffer.from(JSON.stringify(part)).toString('base64url'))
+        .join('.')
+    const signature = sign('sha256', Buffer.from(signingInput), {
+        key: params.signer.key,
+        dsaEncoding: 'ieee-p1363'
+    })
+
+    return `${signingInput}.${signature.toString('base64url')}`
+}
+
+/**
+ * Wrap fetch so every request carries a DPoP proof. When the server answers
+ * 400 or 401 with a new `DPoP-Nonce`, the request is sent again once with
+ * that nonce.
+ */
+function createDpopFetch (
+    fetchImpl:FetchLike,
+    signer:DpopSigner
+):FetchLike {
+    return async (url, init = {}) => {
+        const headers = { ...(init.headers as Record<string, string>) }
+        const method = typeof init.method === 'string' ? init.method : 'GET'
+        const authorization = headers.authorization
+        const accessToken = authorization?.startsWith('DPoP ')
+            ? authorization.slice('DPoP '.length)
+            : undefined
+        const origin = new URL(url).origin
+
+        const send = async () => {
+            const dpop = createDpopProof({ signer, method, url, accessToken })
+            return fetchImpl(url, { ...init, headers: { ...headers, dpop } })
+        }
+
+        const sentNonce = signer.nonces.get(origin)
+        const response = await send()
+        const nonce = resolveString(response.headers?.get?.('dpop-nonce'))
+        if (nonce == null || nonce === sentNonce) return response
+
+        signer.nonces.set(origin, nonce)
+        if (response.status !== 400 && response.status !== 401) {
+            return response
+        }
+
+        return send()
+    }
+}
+
+async function startOAuthCallbackServer ():Promise<{
+    redirectUri:string
+    waitForCallback:(timeoutMs:number)=>Promise<URLSearchParams>
+    close:()=>void
+}> {
+    let resolveCallback:(params:URLSearchParams)=>void = () => {}
+    const callback = new Promise<URLSearchParams>(resolve => {
+        resolveCallback = resolve
+    })
+
+    const server = createServer((request, response) => {
+        const url = new URL(request.url ?? '/', 'http://127.0.0.1')
+        if (url.pathname !== OAUTH_CALLBACK_PATH) {
+            response.writeHead(404).end()
+            return
+        }
+
+        response.writeHead(200, { 'content-type': 'text/html; charset=utf-8' })
+        response.end(
+            '<p>noat login is complete. You can close this window.</p>'
+        )
+        resolveCallback(url.searchParams)
+    })
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject)
+        server.listen(0, '127.0.0.1', () => { resolve() })
+    })
+    const address = server.address()
+    const port = address != null && typeof address === 'object'
+        ? address.port
+        : 0
+
+    return {
+        redirectUri: `http://127.0.0.1:${port}${OAUTH_CALLBACK_PATH}`,
+        waitForCallback: async (timeoutMs) => {
+            let timer:ReturnType<typeof setTimeout>|undefined
+            const timeout = new Promise<never>((_resolve, reject) => {
+                timer = setTimeout(() => {
+                    reject(new Error('Timed out waiting for the OAuth login'))
+                }, timeoutMs)
+            })
+
+            try {
+                return await Promise.race([callback, timeout])
+            } finally {
+                clearTimeout(timer)
+            }
+        },
+        close: () => { server.close() }
+    }
+}
+
+async function postOAuthForm (params:{
+    fetchImpl:FetchLike
+    url:string
+    form:Record<string, string>
+    context:string
+}):Promise<{ ok:boolean, status:number, json:JsonRecord }> {
+    const response = await params.fetchImpl(params.url, {
+        method: 'POST',
+        headers: {
+            'content-type': 'application/x-www-form-urlencoded'
+        },
+        body: new URLSearchParams(params.form).toString(),
+        // A code or refresh token is spent on first use, so a second try
+        // after a lost response would only be rejected.
+        retry: false
+    })
+
+    if (response.status === 400 || response.status === 401) {
+        const text = await response.text()
+        let json:JsonRecord = {}
+        try {
+            json = JSON.parse(text)
+        } catch (_error) {
+            // Keep the empty body.
+        }
+        return { ok: false, status: response.status, json }
+    }
+
+    const json = await parseJsonResponse(response, params.context)
+    return { ok: true, status: response.status, json }
+}
+
+function parseTokenResponse (params:{
+    json:JsonRecord
+    did:string
+    now:number
+}):{ accessToken:string, refreshToken:string, expiresAt:number } {
+    const accessToken = resolveString(params.json.access_token)
+    const refreshToken = resolveString(params.json.refresh_token)
+    const tokenType = resolveString(params.json.token_type)
+    const expiresIn = typeof params.json.expires_in === 'number'
+        ? params.json.expires_in
+        : 0
+
+    if (accessToken == null || refreshToken == null) {
+        throw new Error(
+            'OAuth token response missing "access_token" or "refresh_token"'
+        )
+    }
+    if (tokenType?.toLowerCase() !== 'dpop') {
+        throw new Error(`Unexpected OAuth token type "${tokenType}"`)
+    }
+    if (resolveString(params.json.sub) !== params.did) {
+        throw new Error(
+            `OAuth tokens were issued for ${String(params.json.sub)}, ` +
+            `not ${params.did}`
+        )
+    }
+
+    return {
+        accessToken,
+        refreshToken,
+        expiresAt: params.now + expiresIn * 1000
+    }
+}
+
+async function readOAuthSession (
+    stateDir:string,
+    handle:string
+):Promise<StoredOAuthSession|null> {
+    const sessions = await readStateFile(stateDir, OAUTH_STATE_FILE)
+    const entry = sessions?.[handle] as Partial<StoredOAuthSession>|undefined
+    if (entry == null || typeof entry !== 'object') return null
+
+    const complete = resolveString(entry.did) != null &&
+        resolveString(entry.pdsUrl) != null &&
+        resolveString(entry.tokenEndpoint) != null &&
+        resolveString(entry.clientId) != null &&
+        resolveString(entry.accessToken) != null &&
+        resolveString(entry.refreshToken) != null &&
+        typeof entry.expiresAt === 'number' &&
+        entry.dpopKey != null && typeof entry.dpopKey === 'object'
+
+    return complete ? entry as StoredOAuthSession : null
+}
+
+async function writeOAuthSession (
+    stateDir:string,
+    session:StoredOAuthSession
+):Promise<void> {
+    const sessions = await readStateFile(stateDir, OAUTH_STATE_FILE) ?? {}
+    sessions[session.handle] = session
+    await writeStateFile(stateDir, OAUTH_STATE_FILE, sessions)
+}
+
+async function openOAuthSession (params:{
+    fetchImpl:FetchLike
+    policy:RequestPolicy
+    stateDir:string
+    stored:StoredOAuthSession
+}):Promise<OpenedSession|null> {
+    const signer = createDpopSigner(params.stored.dpopKey)
+    const fetchImpl = createRequestFetch(
+        createDpopFetch(params.fetchImpl, signer),
+        params.policy
+    )
+    let stored = params.stored
+    const now = Date.now()
+
+    if (stored.expiresAt - SESSION_EXPIRY_MARGIN_MS <= now) {
+        const result = await postOAuthForm({
+            fetchImpl,
+            url: stored.tokenEndpoint,
+            form: {
+                grant_type: 'refresh_token',
+                refresh_token: stored.refreshToken,
+                client_id: stored.clientId
+            },
+            context: 'OAuth token refresh'
+        })
+        if (!result.ok) return null
+
+        stored = {
+            ...stored,
+            ...parseTokenResponse({ json: result.json, did: stored.did, now })
+        }
+        await writeOAuthSession(params.stateDir, stored)
+    }
+
+    return {
+        fetchImpl,
+        session: {
+            accessJwt: stored.accessToken,
+            did: stored.did,
+            tokenType: 'DPoP'
+        },
+        pdsUrl: stored.pdsUrl
+    }
+}
+
+const blueskyTarget:PublishTarget<OpenedSession> = {
+    authenticate: openSession,
+    createPost: ({ session, config, draft, post, save }) => publishDraft({
+        ...session,
+        videoServiceUrl: config.videoServiceUrl,
+        draft,
+        records: post.records,
+        document: post.document,
+        save
+    }),
+    updatePost: async ({ session, config, draft, ref }) => {
+        assertOwnRecord(ref, session.session)
+        const result = await updateDraft({
+            ...session,
+            videoServiceUrl: config.videoServiceUrl,
+            draft,
+            rkey: ref.rkey
+        })
+        // Gates are written again, and the ones the post no longer asks
+        // for are removed, so changing allowReplies or allowQuotes lands.
+        const gates = buildGateRecords({
+            postUri: result.uri,
+            gates: getRecordGates(draft, 0)
+        })
+        for (const collection of [
+            'app.bsky.feed.threadgate',
+            'app.bsky.feed.postgate'
+        ]) {
+            const gate = gates.find(gate => gate.collection === collection)
+            if (gate == null) {
+                await deleteRecord({ ...session, collection, rkey: ref.rkey })
+            } else {
+                await putRecord({
+                    ...session,
+                    collection,
+                    rkey: ref.rkey,
+                    record: gate.record,
+                    context: `${collection} for ${draft.path}`
+                })
+            }
+        }
+        if (draft.document == null) return result
+
+        // A post that gained a long-form copy since it was published gets
+        // a new one.
+        const document = await putDocument({
+            ...session,
+            draft,
+            document: draft.document,
+            rkey: draft.document.rkey
+        })
+        return { ...result, document }
+    },
+    deletePost: async ({ session, ref, documentUri }) => {
+        // The last reply goes first, so a failure never leaves replies
+        // without the post they answer.
+        const records = [...ref.replies ?? []].reverse().concat(ref)
+        for (const record of records) assertOwnRecord(record, session.session)
+        for (const record of records) {
+            // Gates share the post's key. Deleting one that was never made
+            // is a no-op, so they are removed whatever the config says now.
+            for (const collection of [
+                'app.bsky.feed.post',
+                'app.bsky.feed.threadgate',
+                'app.bsky.feed.postgate'
+            ]) {
+                await deleteRecord({
+                    ...session,
+                    collection,
+                    rkey: record.rkey
+                })
+            }
+        }
+        if (documentUri != null) {
+            const document = parseAtUri(documentUri)
+            await deleteRecord({
+                ...session,
+                collection: document.collection,
+                rkey: document.rkey
+            })
+        }
+    },
+    toMarker: post => post.uri,
+    getPostUrl: ({ config, post }) => toBlueskyPostUrl(config.handle, post.uri),
+    readRef: ({ frontmatter, config, postPath }) => {
+        return getPublishedRef(frontmatter, config, postPath)
+    }
+}
+
+/**
+ * Create the records of a draft: the post, then each reply of a thread.
+ * `records` has one planned record key per segment. Segments that already
+ * have a URI are skipped, and a planned key that an earlier run sent and
+ * that exists on the PDS is picked up instead of posted again.
+ */
+async function publishDraft (params:{
+    fetchImpl:FetchLike
+    pdsUrl:string
+    session:BlueskySession
+    videoServiceUrl:string
+    draft:DraftPost
+    records:JournalRecord[]
+    document?:JournalRecord
+    save:()=>Promise<void>
+}):Promise<CreateRecordResponse> {
+    // The long-form copy goes first, so it exists once the post does.
+    const documentRecord = params.document
+    if (
+        params.draft.document != null &&
+        documentRecord != null &&
+        documentRecord.uri == null
+    ) {
+        const created = await putDocument({
+            ...params,
+            document: params.draft.document,
+            rkey: documentRecord.rkey
+        })
+        documentRecord.uri = created.uri
+        documentRecord.cid = created.cid
+        await params.save()
+    }
+
+    const segments = [params.draft, ...params.draft.replies]
+    const replyTo = params.draft.replyTo == null
+        ? null
+        : await resolvePostLink({
+            ...params,
+            link: params.draft.replyTo,
+            field: 'replyTo'
+        })
+    const quote = params.draft.quote == null
+        ? undefined
+        : (await resolvePostLink({
+            ...params,
+            link: params.draft.quote,
+            field: 'quote'
+        })).ref
+
+    for (const [index, segment] of segments.entries()) {
+        const planned = params.records[index]
+
+        if (planned.uri == null || planned.cid == null) {
+            const existing = planned.sent === true
+                ? await findPostRecord({ ...params, rkey: planned.rkey })
+                : null
+            if (existing == null) {
+                planned.sent = true
+                if (isGated(getRecordGates(params.draft, index))) {
+                    planned.gated = false
+                }
+                await params.save()
+            }
+            const created = existing != null
+                ? {
+                    uri: toPostUri(params.session.did, planned.rkey),
+                    cid: existing.cid
+                }
+                : await createPostRecord({
+                    fetchImpl: params.fetchImpl,
+                    pdsUrl: params.pdsUrl,
+                    session: params.session,
+                    videoServiceUrl: params.videoServiceUrl,
+                    draft: params.draft,
+                    segment,
+                    rkey: planned.rkey,
+                    reply: index === 0
+                        ? (replyTo == null
+                            ? undefined
+                            : { root: replyTo.root, parent: replyTo.ref })
+                        : {
+                            root: replyTo?.root ??
+                                toCreateRecordResponse(params.records[0]),
+                            parent: toCreateRecordResponse(
+                                params.records[index - 1]
+                            )
+                        },
+                    quote: index === 0 ? quote : undefined,
+                    // A millisecond apart keeps the thread in order.
+                    createdAt: params.draft.createdAt == null
+                        ? undefined
+                        : new Date(
+                            Date.parse(params.draft.createdAt) + index
+                        ).toISOString(),
+                    context: index === 0 ? undefined : `reply ${index}`
+                }).catch(async (error:unknown) => {
+                    // A retry after a lost response conflicts with the
+                    // record the first attempt made under the planned key.
+                    const found = await findPostRecord({
+                        ...params,
+                        rkey: planned.rkey
+                    })
+                    if (found == null) throw error
+                    return { uri: found.uri, cid: found.cid }
+                })
+
+            planned.uri = created.uri
+            planned.cid = created.cid
+            await params.save()
+        }
+
+        // Gates share the post's record key, and putRecord makes them safe
+        // to write again on resume.
+        if (planned.gated === false) {
+            const gates = buildGateRecords({
+                postUri: toCreateRecordResponse(planned).uri,
+                gates: getRecordGates(params.draft, index)
+            })
+            for (const gate of gates) {
+                await putRecord({
+                    fetchImpl: params.fetchImpl,
+                    pdsUrl: params.pdsUrl,
+                    session: params.session,
+                    collection: gate.collection,
+                    rkey: planned.rkey,
+                    record: gate.record,
+                    context: `${gate.collection} for ${params.draft.path}`
+                })
+            }
+            planned.gated = true
+            await params.save()
+        }
+    }
+
+    return toCreateRecordResponse(params.records[0])
+}
+
+/**
+ * The gates for one record of a draft. A threadgate only works on the post
+ * that starts a thread, so replies get the postgate alone.
+ */
+function getRecordGates (draft:DraftPost, index:number):PostGates {
+    const startsThread = index === 0 && draft.replyTo == null
+    return {
+        allowReplies: startsThread ? draft.gates.allowReplies : null,
+        allowQuotes: draft.gates.allowQuotes
+    }
+}
+
+function isGated (gates:PostGates):boolean {
+    return gates.allowReplies != null || !gates.allowQuotes
+}
+
+export function buildGateRecords (params:{
+    postUri:string
+    gates:PostGates
+    createdAt?:string
+}):Array<{ collection:string, record:JsonRecord }> {
+    const createdAt = params.createdAt ?? new Date().toISOString()
+    const records:Array<{ collection:string, record:JsonRecord }> = []
+
+    if (params.gates.allowReplies != null) {
+        records.push({
+            collection: 'app.bsky.feed.threadgate',
+            record: {
+                $type: 'app.bsky.feed.threadgate',
+                post: params.postUri,
+                allow: params.gates.allowReplies.map(rule => (
+                    rule.startsWith('at://')
+                        ? {
+                            $type: 'app.bsky.feed.threadgate#listRule',
+                            list: rule
+                        }
+                        : { $type: THREADGATE_RULES[rule] }
+                )),
+                createdAt
+            }
+        })
+    }
+
+    if (!params.gates.allowQuotes) {
+        records.push({
+            collection: 'app.bsky.feed.postgate',
+            record: {
+                $type: 'app.bsky.feed.postgate',
+                post: params.postUri,
+                embeddingRules: [
+                    { $type: 'app.bsky.feed.postgate#disableRule' }
+                ],
+                createdAt
+            }
+        })
+    }
+
+    return records
+}
+
+async function resolvePostLink (params:{
+    fetchImpl:FetchLike
+    pdsUrl:string
+    session:BlueskySession
+    draft:DraftPost
+    link:PostLink
+    field:string
+}):Promise<{ ref:CreateRecordResponse, root:CreateRecordResponse }> {
+    const { link } = params
+    const record = await findPostRecord({
+        ...params,
+        repo: link.repo,
+        rkey: link.rkey
+    })
+    if (record == null) {
+        throw new Error(
+            `Post "${params.draft.path}" has ${params.field} ` +
+            `"${link.source}", but that post was not found.`
+        )
+    }
+
+    // The PDS answers with the DID in the URI even when asked by handle.
+    if (!parseAtUri(record.uri).repo.startsWith('did:')) {
+        throw new Error(
+            `Could not resolve the DID for ${params.field} "${link.source}"`
+        )
+    }
+
+    const ref = { uri: record.uri, cid: record.cid }
+    const reply = record.value.reply as JsonRecord|undefined
+    const root = reply?.root as JsonRecord|undefined
+    const rootUri = resolveString(root?.uri)
+    const rootCid = resolveString(root?.cid)
+
+    return {
+        ref,
+        root: rootUri != null && rootCid != null
+            ? { uri: rootUri, cid: rootCid }
+            : ref
+    }
+}
+
+function toPostUri (did:string, rkey:string):string {
+    return `at://${did}/app.bsky.feed.post/${rkey}`
+}
+
+async function createPostRecord (params:{
+    fetchImpl:FetchLike
+    pdsUrl:string
+    session:BlueskySession
+    videoServiceUrl:string
+    draft:DraftPost
+    segment:DraftSegment
+    rkey?:string
+    reply?:{
+        root:CreateRecordResponse
+        parent:CreateRecordResponse
+    }
+    quote?:CreateRecordResponse
+    createdAt?:string
+    context?:string
+}):Promise<CreateRecordResponse> {
+    const record = await buildPostRecord(params)
+
+    const url = `${trimTrailingSlash(params.pdsUrl)}` +
+        '/xrpc/com.atproto.repo.createRecord'
+    const response = await params.fetchImpl(url, {
+        method: 'POST',
+        headers: {
+            authorization: toAuthorizationHeader(params.session),
+            'content-type': 'application/json'
+        },
+        body: JSON.stringify({
+            repo: params.session.did,
+            collection: 'app.bsky.feed.post',
+            rkey: params.rkey,
+            record
+        })
+    })
+
+    const target = params.context == null
+        ? params.draft.path
+        : `${params.draft.path} (${params.context})`
+    const context = `create record for ${target}`
+    const json = await parseJsonResponse(response, context)
+    const uri = resolveString(json.uri)
+    const cid = resolveString(json.cid)
+    if (uri == null || cid == null) {
+        throw new Error(
+            'Unexpected createRecord response for ' +
+            target
+        )
+    }
+
+    return { uri, cid }
+}
+
+/**
+ * Replace the record of an already-published post with the current draft,
+ * keeping its original `createdAt` and reply refs.
+ */
+async function updateDraft (params:{
+    fetchImpl:FetchLike
+    pdsUrl:string
+    session:BlueskySession
+    videoServiceUrl:string
+    draft:DraftPost
+    rkey:string
+}):Promise<CreateRecordResponse> {
+    if (params.draft.replies.length > 0) {
+        throw new Error(
+            `Cannot update "${params.draft.path}": posts published as a ` +
+            'thread cannot be updated in place.'
+        )
+    }
+
+    const existing = await getPostRecord(params)
+    // The reply is kept from the published record, so a new replyTo would
+    // be reported as updated while the post still answers the old one.
+    const reply = existing.value.reply as JsonRecord|undefined
+    const parentUri = resolveString((reply?.parent as JsonRecord)?.uri) ?? null
+    const replyToUri = params.draft.replyTo == null
+        ? null
+        : (await resolvePostLink({
+            ...params,
+            link: params.draft.replyTo,
+            field: 'replyTo'
+        })).ref.uri
+    if (replyToUri !== parentUri) {
+        throw new Error(
+            `Cannot update "${params.draft.path}": its replyTo changed. ` +
+            'Unpublish it and publish it again to reply to another post.'
+        )
+    }
+
+    const quote = params.draft.quote == null
+        ? undefined
+        : (await resolvePostLink({
+            ...params,
+            link: params.draft.quote,
+            field: 'quote'
+        })).ref
+    const record = await buildPostRecord({
+        ...params,
+        segment: params.draft,
+        quote
+    })
+    if (existing.value.createdAt != null) {
+        record.createdAt = existing.value.createdAt
+    }
+    if (existing.value.reply != null) {
+        record.reply = existing.value.reply
+    }
+
+    const url = `${trimTrailingSlash(params.pdsUrl)}` +
+        '/xrpc/com.atproto.repo.putRecord'
+    const response = await params.fetchImpl(url, {
+        method: 'POST',
+        headers: {
+            authorization: toAuthorizationHeader(params.session),
+            'content-type': 'application/json'
+        },
+        body: JSON.stringify({
+            repo: params.session.did,
+            collection: 'app.bsky.feed.post',
+            rkey: params.rkey,
+            record,
+            swapRecord: existing.cid
+        }),
+        // Sent again after a lost response, the swap would fail.
+        retry: false
+    })
+
+    const context = `put record for ${params.draft.path}`
+    const json = await parseJsonResponse(response, context)
+    const uri = resolveString(json.uri)
+    const cid = resolveString(json.cid)
+    if (uri == null || cid == null) {
+        throw new Error(
+            'Unexpected putRecord response for ' +
+            params.draft.path
+        )
+    }
+
+    return { uri, cid }
+}
+
+async function deleteRecord (params:{
+    fetchImpl:FetchLike
+    pdsUrl:string
+    session:BlueskySession
+    collection:string
+    rkey:string
+}):Promise<void> {
+    const url = `${trimTrailingSlash(params.pdsUrl)}` +
+        '/xrpc/com.atproto.repo.deleteRecord'
+    const response = await params.fetchImpl(url, {
+        method: 'POST',
+        headers: {
+            authorization: toAuthorizationHeader(params.session),
+            'content-type': 'application/json'
+        },
+        body: JSON.stringify({
+            repo: params.session.did,
+            collection: params.collection,
+            rkey: params.rkey
+        })
+    })
+
+    await parseJsonResponse(response, `delete record ${params.rkey}`)
+}
+
+async function putRecord (params:{
+    fetchImpl:FetchLike
+    pdsUrl:string
+    session:BlueskySession
+    collection:string
+    rkey:string
+    record:JsonRecord
+    context:string
+}):Promise<CreateRecordResponse> {
+    const url = `${trimTrailingSlash(params.pdsUrl)}` +
+        '/xrpc/com.atproto.repo.putRecord'
+    const response = await params.fetchImpl(url, {
+        method: 'POST',
+        headers: {
+            authorization: toAuthorizationHeader(params.session),
+            'content-type': 'application/json'
+        },
+        body: JSON.stringify({
+            repo: params.session.did,
+            collection: params.collection,
+            rkey: params.rkey,
+            record: params.record
+        })
+    })
+
+    const json = await parseJsonResponse(response, `put ${params.context}`)
+    const uri = resolveString(json.uri)
+    const cid = resolveString(json.cid)
+    if (uri == null || cid == null) {
+        throw new Error(`Unexpected putRecord response for ${params.context}`)
+    }
+
+    return { uri, cid }
+}
+
+async function putDocument (params:{
+    fetchImpl:FetchLike
+    pdsUrl:string
+    session:BlueskySession
+    draft:DraftPost
+    document:DraftDocument
+    rkey:string
+}):Promise<CreateRecordResponse> {
+    const blobs:Array<{ path:string, blob:BlueskyBlob }> = []
+    for (const image of params.document.images) {
+        blobs.push({
+            path: image.path,
+            blob: await uploadBlob({
+                ...params,
+                bytes: image.bytes,
+                mimeType: image.mimeType
+            })
+        })
+    }
+
+    return await putRecord({
+        ...params,
+        collection: LONG_FORM_COLLECTION,
+        record: buildDocumentRecord({
+            title: params.document.title,
+            content: params.document.content,
+            blobs,
+            did: params.session.did,
+            pdsUrl: params.pdsUrl,
+            createdAt: params.draft.createdAt ?? readTidDate(params.rkey)
+        }),
+        context: `long-form entry for ${params.draft.path}`
+    })
+}
+
+/**
+ * A `com.whtwnd.blog.entry` record for the markdown body of a post. Local
+ * images are rewritten to their blob's `getBlob` URL on the PDS, and the
+ * blobs are listed on the record so the PDS keeps them.
+ */
+export function buildDocumentRecord (params:{
+    title?:string
+    content:string
+    // uploaded images, by the path the markdown uses for them
+    blobs:Array<{ path:string, blob:Record<string, unknown> }>
+    did:string
+    pdsUrl:string
+    createdAt:string
+}):Record<string, unknown> {
+    const urls = new Map(params.blobs.map(({ path, blob }) => {
+        const cid = resolveString((blob.ref as JsonRecord|undefined)?.$link)
+        if (cid == null) {
+            throw new Error(`Uploaded blob for "${path}" has no CID`)
+        }
+
+        const query = new URLSearchParams({ did: params.did, cid })
+        return [
+            path,
+            `${trimTrailingSlash(params.pdsUrl)}` +
+                `/xrpc/com.atproto.sync.getBlob?${query.toString()}`
+        ]
+    }))
+    const content = params.content.replace(
+        /!\[([^\]]*)\]\(([^)\n]+)\)/g,
+        (image, alt:string, target:string) => {
+            const path = parseMarkdownImagePath(target.trim())
+            const url = path == null ? undefined : urls.get(path)
+            return path == null || url == null
+                ? image
+                : `![${alt}](${target.replace(path, url)})`
+        }
+    )
+
+    return {
+        $type: LONG_FORM_COLLECTION,
+        content,
+        ...(params.title == null ? {} : { title: params.title }),
+        createdAt: params.createdAt,
+        visibility: 'public',
+        ...(params.blobs.length === 0
+            ? {}
+            : {
+                blobs: params.blobs.map(({ path, blob }) => ({
+                    $type: 'com.whtwnd.blog.defs#blobMetadata',
+                    blobref: blob,
+                    name: posix.basename(path)
+                }))
+            })
+    }
+}
+
+async function getPostRecord (params:{
+    fetchImpl:FetchLike
+    pdsUrl:string
+    session:BlueskySession
+    rkey:string
+}):Promise<{ uri:string, cid:string, value:JsonRecord }> {
+    const record = await findPostRecord(params)
+    if (record == null) {
+        throw new Error(`Record ${params.rkey} was not found on the PDS`)
+    }
+
+    return record
+}
+
+async function findPostRecord (params:{
+    fetchImpl:FetchLike
+    pdsUrl:string
+    session:BlueskySession
+    repo?:string
+    rkey:string
+}):Promise<{ uri:string, cid:string, value:JsonRecord }|null> {
+    const repo = params.repo ?? params.session.did
+    const query = new URLSearchParams({
+        repo,
+        collection: 'app.bsky.feed.post',
+        rkey: params.rkey
+    })
+    const url = `${trimTrailingSlash(params.pdsUrl)}` +
+        `/xrpc/com.atproto.repo.getRecord?${query.toString()}`
+    const response = await params.fetchImpl(url, {
+        method: 'GET',
+        headers: {
+            authorization: toAuthorizationHeader(params.session)
+        }
+    })
+
+    if (response.status === 400 || response.status === 404) {
+        const body = await response.clone().json().catch(() => ({}))
+        if (body?.error === 'RecordNotFound') return null
+    }
+
+    const json = await parseJsonResponse(
+        response,
+        `get record ${params.rkey}`
+    )
+    const cid = resolveString(json.cid)
+    if (cid == null || json.value == null || typeof json.value !== 'object') {
+        throw new Error(`Unexpected getRecord response for ${params.rkey}`)
+    }
+
+    return {
+        uri: resolveString(json.uri) ?? toPostUri(repo, params.rkey),
+        cid,
+        value: json.value as JsonRecord
+    }
+}
+
+async function buildPostRecord (params:{
+    fetchImpl:FetchLike
+    pdsUrl:string
+    session:BlueskySession
+    videoServiceUrl:string
+    segment:DraftSegment
+    reply?:{
+        root:CreateRecordResponse
+        parent:CreateRecordResponse
+    }
+    quote?:CreateRecordResponse
+    createdAt?:string
+}):Promise<JsonRecord> {
+    const blobs:BlueskyBlob[] = []
+    let thumbBlob:BlueskyBlob | undefined
+
+    for (const image of params.segment.images) {
+        blobs.push(await uploadBlob({
+            fetchImpl: params.fetchImpl,
+            pdsUrl: params.pdsUrl,
+            session: params.session,
+            bytes: image.bytes,
+            mimeType: image.mimeType
+        }))
+    }
+
+    const card = params.segment.card
+    if (card?.thumb != null) {
+        thumbBlob = await uploadBlob({
+            fetchImpl: params.fetchImpl,
+            pdsUrl: params.pdsUrl,
+            session: params.session,
+            bytes: card.thumb.bytes,
+            mimeType: card.thumb.mimeType
+        })
+    }
+
+    const record:JsonRecord = {
+        $type: 'app.bsky.feed.post',
+        text: params.segment.text,
+        createdAt: params.createdAt ?? new Date().toISOString()
+    }
+
+    if (params.segment.facets.length > 0) {
+        record.facets = params.segment.facets
+    }
+
+    if (params.segment.langs?.length) record.langs = params.segment.langs
+    if (params.segment.labels?.length) {
+        record.labels = {
+            $type: 'com.atproto.label.defs#selfLabels',
+            values: params.segment.labels.map(val => ({ val }))
+        }
+    }
+    if (params.segment.tags?.length) record.tags = params.segment.tags
+
+    if (params.reply != null) {
+        record.reply = {
+            root: params.reply.root,
+            parent: params.reply.parent
+        }
+    }
+
+    if (blobs.length > 0) {
+        record.embed = {
+            $type: 'app.bsky.embed.images',
+            images: params.segment.images.map((image, index) => {
+                const entry:JsonRecord = {
+                    alt: image.alt,
+                    image: blobs[index]
+                }
+                if (image.aspectRatio != null) {
+                    entry.aspectRatio = image.aspectRatio
+                }
+
+                return entry
+            })
+        }
+    }
+
+    const video = params.segment.video
+    if (video != null) {
+        const embed:JsonRecord = {
+            $type: 'app.bsky.embed.video',
+            video: await uploadVideo({
+                ...params,
+                bytes: video.bytes,
+                mimeType: video.mimeType,
+                name: posix.basename(video.path)
+            })
+        }
+        if (video.alt !== '') embed.alt = video.alt
+        if (video.aspectRatio != null) embed.aspectRatio = video.aspectRatio
+
+        const captions:JsonRecord[] = []
+        for (const caption of video.captions) {
+            captions.push({
+                lang: caption.lang,
+                file: await uploadBlob({
+                    fetchImpl: params.fetchImpl,
+                    pdsUrl: params.pdsUrl,
+                    session: params.session,
+                    bytes: caption.bytes,
+                    mimeType: 'text/vtt'
+                })
+            })
+        }
+        if (captions.length > 0) embed.captions = captions
+
+        record.embed = embed
+    }
+
+    if (card != null) {
+        const external:JsonRecord = {
+            uri: card.uri,
+            title: card.title,
+            description: card.description
+        }
+        if (thumbBlob != null) external.thumb = thumbBlob
+
+        record.embed = {
+            $type: 'app.bsky.embed.external',
+            external
+        }
+    }
+
+    if (params.quote != null) {
+        const quoted = {
+            $type: 'app.bsky.embed.record',
+            record: params.quote
+        }
+        record.embed = record.embed == null
+            ? quoted
+            : {
+                $type: 'app.bsky.embed.recordWithMedia',
+                record: quoted,
+                media: record.embed
+            }
+    }
+
+    return record
+}
+
+async function uploadBlob (params:{
+    fetchImpl:FetchLike
+    pdsUrl:string
+    session:BlueskySession
+    bytes:Buffer
+    mimeType:string
+}):Promise<BlueskyBlob> {
+    const url = `${trimTrailingSlash(params.pdsUrl)}` +
+        '/xrpc/com.atproto.repo.uploadBlob'
+    const response = await params.fetchImpl(url, {
+        method: 'POST',
+        headers: {
+            authorization: toAuthorizationHeader(params.session),
+            'content-type': params.mimeType
+        },
+        body: params.bytes
+    })
+
+    const json = await parseJsonResponse(response, 'upload blob')
+    if (json.blob == null || typeof json.blob !== 'object') {
+        throw new Error('Unexpected uploadBlob response: missing "blob" object')
+    }
+
+    return json.blob as BlueskyBlob
+}
+
+/**
+ * Upload a video through the video service and wait until it is processed.
+ * The service stores the result in the account's repo as a blob, with a
+ * service auth token the PDS issues for that.
+ */
+export async function uploadVideo (params:{
+    fetchImpl:FetchLike
+    pdsUrl:string
+    session:BlueskySession
+    videoServiceUrl:string
+    bytes:Buffer
+    mimeType:string
+    name:string
+    pollIntervalMs?:number
+}):Promise<BlueskyBlob> {
+    const pdsHost = new URL(params.pdsUrl).host.replace(':', '%3A')
+    const token = await getServiceAuth({
+        ...params,
+        aud: `did:web:${pdsHost}`,
+        lxm: 'com.atproto.repo.uploadBlob'
+    })
+
+    const serviceUrl = trimTrailingSlash(params.videoServiceUrl)
+    const query = new URLSearchParams({
+        did: params.session.did,
+        name: params.name
+    })
+    const response = await params.fetchImpl(
+        `${serviceUrl}/xrpc/app.bsky.video.uploadVideo?${query.toString()}`,
+        {
+            method: 'POST',
+            headers: {
+                authorization: `Bearer ${token}`,
+                'content-type': params.mimeType
+            },
+            body: params.bytes,
+            timeoutMs: UPLOAD_TIMEOUT_MS
+        }
+    )
+
+    // A video that was uploaded before answers 409 with its earlier job.
+    const conflict = response.status === 409
+        ? await response.clone().json().catch(() => null)
+        : null
+    let status = resolveString(conflict?.jobId) != null
+        ? { jobId: conflict.jobId } as JsonRecord
+        : readJobStatus(await parseJsonResponse(
+            response,
+            `upload video ${params.name}`
+        ))
+
+    const deadline = Date.now() + VIDEO_PROCESSING_TIMEOUT_MS
+    while (status.blob == null) {
+        if (
+            status.state === 'JOB_STATE_FAILED' ||
+            status.state === 'JOB_STATE_COMPLETED'
+        ) {
+            const reason = resolveString(status.error) ??
+                resolveString(status.message) ??
+                'unknown error'
+            throw new Error(
+                `Video ${params.name} could not be processed: ${reason}`
+            )
+        }
+        const jobId = resolveString(status.jobId)
+        if (jobId == null) {
+            throw new Error(
+                `Unexpected uploadVideo response for ${params.name}: ` +
+                'missing "jobId"'
+            )
+        }
+        if (Date.now() > deadline) {
+            throw new Error(
+                `Timed out waiting for video ${params.name} to be processed`
+            )
+        }
+
+        await sleep(params.pollIntervalMs ?? VIDEO_POLL_INTERVAL_MS)
+        const jobResponse = await params.fetchImpl(
+            `${serviceUrl}/xrpc/app.bsky.video.getJobStatus` +
+            `?jobId=${encodeURIComponent(jobId)}`,
+            { method: 'GET' }
+        )
+        status = readJobStatus(await parseJsonResponse(
+            jobResponse,
+            `video job ${jobId}`
+        ))
+    }
+
+    return status.blob as BlueskyBlob
+}
+
+function readJobStatus (json:JsonRecord):JsonRecord {
+    const status = json.jobStatus
+    return status != null && typeof status === 'object'
+        ? status as JsonRecord
+        : json
+}
+
+async function getServiceAuth (params:{
+    fetchImpl:FetchLike
+    pdsUrl:string
+    session:BlueskySession
+    aud:string
+    lxm:string
+}):Promise<string> {
+    const query = new URLSearchParams({
+        aud: params.aud,
+        lxm: params.lxm,
+        exp: String(Math.floor(Date.now() / 1000) + 30 * 60)
+    })
+    const url = `${trimTrailingSlash(params.pdsUrl)}` +
+        `/xrpc/com.atproto.server.getServiceAuth?${query.toString()}`
+    const response = await params.fetchImpl(url, {
+        method: 'GET',
+        headers: {
+            authorization: toAuthorizationHeader(params.session)
+        }
+    })
+
+    const json = await parseJsonResponse(response, 'get service auth')
+    const token = resolveString(json.token)
+    if (token == null) {
+        throw new Error('Unexpected getServiceAuth response: missing "token"')
+    }
+
+    return token
+}
+
+interface MastodonSession {
+    fetchImpl:FetchLike
+    instanceUrl:string
+    token:string
+    // the account's profile URL, which its statuses live under
+    accountUrl:string
+}
+
+/**
+ * Publish to a Mastodon server through the Mastodon API, with an access
+ * token from the account's `tokenEnvVar`. A thread becomes a chain of
+ * replies, and each planned record key is sent as the `Idempotency-Key`,
+ * so a status that was created before a failure is not posted again on
+ * resume.
+ */
+const mastodonTarget:PublishTarget<MastodonSession> = {
+    authenticate: async ({ env, config, verbose, io }) => {
+        const token = resolveString(env[config.passwordEnvVar])
+        if (token == null) {
+            throw new Error(
+                `Missing Mastodon access token. Set ${config.passwordEnvVar} ` +
+                'in .env or environment.'
+            )
+        }
+        if (config.pdsUrl == null) {
+            throw new Error(`Missing instanceUrl for ${config.handle}.`)
+        }
+
+        const log = (message:string) => {
+            if (verbose) io.log(`[noat] ${message}`)
+        }
+        const fetchImpl = createRequestFetch(resolveFetchImplementation(), {
+            retries: config.retries,
+            retryDelayMs: config.retryDelayMs,
+            timeoutMs: config.timeoutMs,
+            log
+        })
+        const instanceUrl = trimTrailingSlash(config.pdsUrl)
+        const response = await fetchImpl(
+            `${instanceUrl}/api/v1/accounts/verify_credentials`,
+            { headers: { authorization: `Bearer ${token}` } }
+        )
+        const json = await parseJsonResponse(
+            response,
+            'verify credentials',
+            'Mastodon'
+        )
+        const accountUrl = resolveString(json.url)
+        if (accountUrl == null) {
+            throw new Error(
+                'Unexpected verify_credentials response: missing "url"'
+            )
+        }
+
+        log(`logged in to ${instanceUrl} as ${String(json.acct)}`)
+        return {
+            fetchImpl,
+            instanceUrl,
+            token,
+            accountUrl: trimTrailingSlash(accountUrl)
+        }
+    },
+    createPost: async ({ session, draft, post, save }) => {
+        const { records } = post
+        const segments = [draft, ...draft.replies]
+
+        for (const [index, segment] of segments.entries()) {
+            const planned = records[index]
+            if (planned.uri != null && planned.cid != null) continue
+
+            const created = await sendMastodonStatus({
+                session,
+                draft,
+                segment,
+                method: 'POST',
+                path: '/api/v1/statuses',
+                inReplyToId: index === 0
+                    ? undefined
+                    : toCreateRecordResponse(records[index - 1]).cid,
+                idempotencyKey: planned.rkey,
+                context: index === 0
+                    ? `create status for ${draft.path}`
+                    : `create status for ${draft.path} reply ${index}`
+            })
+            planned.uri = created.uri
+            planned.cid = created.cid
+            await save()
+        }
+
+        return toCreateRecordResponse(records[0])
+    },
+    updatePost: async ({ session, draft, ref }) => {
+        if (draft.replies.length > 0) {
+            throw new Error(
+                `Cannot update "${draft.path}": posts published as a ` +
+                'thread cannot be updated in place.'
+            )
+        }
+
+        return await sendMastodonStatus({
+            session,
+            draft,
+            segment: draft,
+            method: 'PUT',
+            path: `/api/v1/statuses/${encodeURIComponent(ref.rkey)}`,
+            context: `edit status for ${draft.path}`
+        })
+    },
+    deletePost: async ({ session, ref }) => {
+        for (const status of [...ref.replies ?? []].reverse().concat(ref)) {
+            const response = await session.fetchImpl(
+                `${session.instanceUrl}/api/v1/statuses/` +
+                    encodeURIComponent(status.rkey),
+                {
+                    method: 'DELETE',
+                    headers: { authorization: `Bearer ${session.token}` }
+                }
+            )
+            // Already gone, like deleting a missing record on a PDS.
+            if (response.status === 404) continue
+            await parseJsonResponse(
+                response,
+                `delete status ${status.rkey}`,
+                'Mastodon'
+            )
+        }
+    },
+    toMarker: post => post.cid,
+    getPostUrl: ({ session, post }) => `${session.accountUrl}/${post.cid}`,
+    readRef: ({ frontmatter, config, postPath }) => {
+        const id = resolveString(getNestedField(frontmatter, config.atCidField))
+        if (id == null) {
+            throw new Error(
+                `Post "${postPath}" is marked as published, but has no ` +
+                `${config.atCidField} to find its status.`
+            )
+        }
+
+        const replies = readMarkerList(
+            frontmatter,
+            config.repliesField,
+            postPath
+        ).map(reply => ({ rkey: reply, source: reply }))
+        return {
+            rkey: id,
+            source: id,
+            ...(replies.length === 0 ? {} : { replies })
+        }
+    }
+}
+
+const PUBLISH_TARGETS:Record<TargetName, PublishTarget> = {
+    bluesky: blueskyTarget,
+    mastodon: mastodonTarget
+}
+
+export function getPublishTarget (name:TargetName):PublishTarget {
+    return PUBLISH_TARGETS[name]
+}
+
+async function sendMastodonStatus (params:{
+    session:MastodonSession
+    draft:DraftPost
+    segment:DraftSegment
+    method:'POST'|'PUT'
+    path:string
+    inReplyToId?:string
+    idempotencyKey?:string
+    context:string
+}):Promise<CreateRecordResponse> {
+    const { session, segment } = params
+    const media = segment.video == null ? segment.images : [segment.video]
+    const mediaIds:string[] = []
+    for (const item of media) {
+        mediaIds.push(await uploadMastodonMedia({ session, media: item }))
+    }
+
+    const response = await session.fetchImpl(
+        `${session.instanceUrl}${params.path}`,
+        {
+            method: params.method,
+            headers: {
+                authorization: `Bearer ${session.token}`,
+                'content-type': 'application/json',
+                ...(params.idempotencyKey == null
+                    ? {}
+                    : { 'idempotency-key': params.idempotencyKey })
+            },
+            body: JSON.stringify({
+                status: toMastodonText(segment),
+                media_ids: mediaIds,
+                ...(params.inReplyToId == null
+                    ? {}
+                    : { in_reply_to_id: params.inReplyToId }),
+                // Mastodon takes one ISO 639 language code.
+                ...(segment.langs?.[0] == null
+                    ? {}
+                    : { language: segment.langs[0].split('-')[0] }),
+                ...(segment.labels == null || segment.labels.length === 0
+                    ? {}
+                    : { sensitive: true })
+            })
+        }
+    )
+
+    const json = await parseJsonResponse(response, params.context, 'Mastodon')
+    const uri = resolveString(json.uri)
+    const id = resolveString(json.id)
+    if (uri == null || id == null) {
+        throw new Error(
+            `Unexpected Mastodon status response for ${params.draft.path}`
+        )
+    }
+
+    return { uri, cid: id }
+}
+
+/**
+ * The text of a status. Mastodon makes its own links and previews, so
+ * links are written out in full, and a link card becomes its URL at the
+ * end of the text.
+ */
+export function toMastodonText (segment:DraftSegment):string {
+    const bytes = Buffer.from(segment.text, 'utf8')
+    const facets = [...segment.facets].sort((a, b) => {
+        return a.index.byteStart - b.index.byteStart
+    })
+    let text = ''
+    let cursor = 0
+
+    for (const facet of facets) {
+        const uri = facet.features[0]?.uri
+        if (uri == null) continue
+        const label = bytes
+            .subarray(facet.index.byteStart, facet.index.byteEnd)
+            .toString('utf8')
+
+        text += bytes.subarray(cursor, facet.index.byteStart).toString('utf8')
+        text += label === uri || label === toShortLinkText(uri)
+            ? uri
+            : `${label} (${uri})`
+        cursor = facet.index.byteEnd
+    }
+    text += bytes.subarray(cursor).toString('utf8')
+
+    if (segment.card == null || text.includes(segment.card.uri)) return text
+    return `${text}\n\n${segment.card.uri}`.trim()
+}
+
+/**
+ * Upload an image or video as a media attachment, with its alt text as the
+ * description. Mastodon processes large files after the upload, so this
+ * waits until the attachment has a URL before it can be posted.
+ */
+async function uploadMastodonMedia (params:{
+    session:MastodonSession
+    media:DraftImage|DraftVideo
+    pollIntervalMs?:number
+}):Promise<string> {
+    const { session, media } = params
+    const authorization = `Bearer ${session.token}`
+    const form = new FormData()
+    form.append(
+        'file',
+        new Blob([new Uint8Array(media.bytes)], { type: media.mimeType }),
+        posix.basename(media.path)
+    )
+    if (media.alt !== '') form.append('description', media.alt)
+
+    // Each upload makes a new attachment, so a retry could leave a copy.
+    const response = await session.fetchImpl(
+        `${session.instanceUrl}/api/v2/media`,
+        {
+            method: 'POST',
+            headers: { authorization },
+            body: form,
+            retry: false,
+            timeoutMs: UPLOAD_TIMEOUT_MS
+        }
+    )
+    const context = `upload ${media.path}`
+    let json = await parseJsonResponse(response, context, 'Mastodon')
+    const id = resolveString(json.id)
+    if (id == null) {
+        throw new Error('Unexpected Mastodon media response: missing "id"')
+    }
+
+    const deadline = Date.now() + VIDEO_PROCESSING_TIMEOUT_MS
+    while (json.url == null) {
+        if (Date.now() > deadline) {
+            throw new Error(
+                `Mastodon did not finish processing ${media.path} in time`
+            )
+        }
+
+        await sleep(params.pollIntervalMs ?? MEDIA_POLL_INTERVAL_MS)
+        json = await parseJsonResponse(
+            await session.fetchImpl(
+                `${session.instanceUrl}/api/v1/media/${id}`,
+                { headers: { authorization } }
+            ),
+            context,
+            'Mastodon'
+        )
+    }
+
+    return id
+}
+
+async function parseJsonResponse (
+    response:any,
+    context:string,
+    service:string = 'Bluesky'
+):Promise<JsonRecord> {
+    const bodyText = await response.text()
+    let parsed:unknown = {}
+
+    if (bodyText.trim() !== '') {
+        try {
+            parsed = JSON.parse(bodyText)
+        } catch (error) {
+            const message = (error as Error).message
+            throw new Error(
+                `Could not parse JSON for ${context}: ${message}`
+            )
+        }
+    }
+
+    if (!response.ok) {
+        const message = extractApiError(parsed) ?? response.statusText
+        throw new Error(
+            `${service} API error (${context}) ` +
+            `[${response.status}]: ${message}`
+        )
+    }
+
+    if (parsed == null || typeof parsed !== 'object') {
+        throw new Error(`Expected JSON object for ${context}`)
+    }
+
+    return parsed as JsonRecord
+}
+
+export function toBlueskyPostUrl (handle:string, atUri:string):string {
+    const match = /\/app\.bsky\.feed\.post\/([^/]+)$/.exec(atUri)
+    if (match == null) {
+        throw new Error(`Could not derive Bluesky post URL from "${atUri}"`)
+    }
+
+    const postId = encodeURIComponent(match[1])
+    const encodedHandle = encodeURIComponent(handle)
+    return `https://bsky.app/profile/${encodedHandle}/post/${postId}`
+}
+
+export function parseAtUri (uri:string):{
+    repo:string
+    collection:string
+    rkey:string
+} {
+    const match = /^at:\/\/([^/]+)\/([^/]+)\/([^/?#]+)$/.exec(uri.trim())
+    if (match == null) {
+        throw new Error(`Could not parse AT URI "${uri}"`)
+    }
+
+    return {
+        repo: decodeURIComponent(match[1]),
+        collection: match[2],
+        rkey: decodeURIComponent(match[3])
+    }
+}
+
+export function parseBlueskyPostUrl (url:string):{
+    actor:string
+    rkey:string
+} {
+    const match = /^https:\/\/bsky\.app\/profile\/([^/]+)\/post\/([^/?#]+)/
+        .exec(url.trim())
+    if (match == null) {
+        throw new Error(`Could not parse Bluesky post URL "${url}"`)
+    }
+
+    return {
+        actor: decodeURIComponent(match[1]),
+        rkey: decodeURIComponent(match[2])
+    }
+}
+
+function extractApiError (payload:unknown):string|null {
+    if (payload == null || typeof payload !== 'object') return null
+    const message = resolveString((payload as JsonRecord).message)
+    const error = resolveString((payload as JsonRecord).error)
+    return message ?? error ?? null
+}
+
+function trimTrailingSlash (value:string):string {
+    return value.endsWith('/') ? value.slice(0, -1) : value
+}
+
+async function buildDrafts (params:{
+    repoRoot:string
+    config:ResolvedConfig
+    postPaths:string[]
+    postsRootSpecs:string[]
+    // a run being resumed, whose planned entry keys the posts link to
+    journal?:PublishJournal
+    verbose:boolean
+    io:CliIO
+}):Promise<{ drafts:DraftPost[], held:Array<PostHold & { path:string }> }> {
+    const drafts:DraftPost[] = []
+    const held:Array<PostHold & { path:string }> = []
+    const now = Date.now()
+
+    for (const postPath of params.postPaths) {
+        const source = readPostSource(params.repoRoot, postPath)
+        if (isPublished(source.frontmatter, params.config)) continue
+
+        const hold = getPostHold({
+            postPath,
+            frontmatter: source.frontmatter,
+            now
+        })
+        if (hold != null) {
+            held.push({ path: postPath, ...hold })
+            continue
+        }
+
+        const documentRkey = params.journal?.posts[postPath]?.document?.rkey
+        const draft = buildDraft({
+            repoRoot: params.repoRoot,
+            config: params.config,
+            postsRootSpec: findPostsRootSpec(params.postsRootSpecs, postPath),
+            postPath,
+            ...source,
+            ...(documentRkey == null ? {} : { documentRkey }),
+            io: params.io
+        })
+        await fitDraftImages({
+            draft,
+            config: params.config,
+            verbose: params.verbose,
+            io: params.io
+        })
+        drafts.push(draft)
+    }
+
+    return { drafts, held }
+}
+
+export function getPostHold (params:{
+    postPath:string
+    frontmatter:Record<string, unknown>
+    now?:number
+}):PostHold|null {
+    const { frontmatter } = params
+    if (frontmatter.draft === true) {
+        return { reason: 'draft', detail: 'draft is true' }
+    }
+    if (frontmatter.noat === false) {
+        return { reason: 'draft', detail: 'noat is false' }
+    }
+
+    const publishAt = frontmatter.publishAt
+    if (publishAt == null) return null
+
+    // YAML reads unquoted timestamps as dates.
+    const time = publishAt instanceof Date
+        ? publishAt.getTime()
+        : typeof publishAt === 'string' ? Date.parse(publishAt) : NaN
+    if (Number.isNaN(time)) {
+        throw new Error(
+            `Post "${params.postPath}" has an invalid publishAt ` +
+            `"${String(publishAt)}". Use an ISO 8601 date, like ` +
+            '"2026-03-01T09:00:00Z".'
+        )
+    }
+
+    if (time <= (params.now ?? Date.now())) return null
+
+    return {
+        reason: 'scheduled',
+        detail: `scheduled for ${new Date(time).toISOString()}`
+    }
+}
+
+export function resolveCreatedAt (params:{
+    postPath:string
+    // the raw `date` field, see `readRawFrontmatterField`
+    date?:unknown
+    timezone:string
+    now?:number
+}):string|null {
+    const fileDate = /^(\d{4}-\d{2}-\d{2})[-_.]/
+        .exec(posix.basename(params.postPath))?.[1]
+    const value = params.date ?? fileDate
+    if (value == null) return null
+
+    const time = value instanceof Date
+        ? value.getTime()
+        : typeof value === 'string'
+            ? parseDateInZone(value.trim(), params.timezone)
+            : NaN
+    if (Number.isNaN(time)) {
+        throw new Error(
+            `Post "${params.postPath}" has an invalid date ` +
+            `"${String(value)}". Use YYYY-MM-DD, or an ISO 8601 date like ` +
+            '"2026-02-01T09:00:00+01:00".'
+        )
+    }
+    if (time > (params.now ?? Date.now())) {
+        throw new Error(
+            `Post "${params.postPath}" has a date in the future ` +
+            `(${new Date(time).toISOString()}). Use publishAt to schedule it.`
+        )
+    }
+
+    return new Date(time).toISOString()
+}
+
+function parseDateInZone (value:string, timeZone:string):number {
+    const match = new RegExp(
+        '^(\\d{4})-(\\d{2})-(\\d{2})' +
+        '(?:[Tt ](\\d{2}):(\\d{2})(?::(\\d{2})(?:\\.(\\d{1,3})\\d*)?)?)?' +
+        ' ?(Z|[+-]\\d{2}(?::?\\d{2})?)?$',
+        'i'
+    ).exec(value)
+    if (match == null) return NaN
+
+    const [year, month, day, hour, minute, second] = match.slice(1, 7)
+        .map(part => Number(part ?? 0))
+    const millis = Number((match[7] ?? '0').padEnd(3, '0'))
+    const wallClock = Date.UTC(
+        year,
+        month - 1,
+        day,
+        hour,
+        minute,
+        second,
+        millis
+    )
+
+    // Date.UTC rolls over out of range fields, so check they survived.
+    const check = new Date(wallClock)
+    if (
+        check.getUTCFullYear() !== year ||
+        check.getUTCMonth() !== month - 1 ||
+        check.getUTCDate() !== day ||
+        check.getUTCHours() !== hour ||
+        check.getUTCMinutes() !== minute ||
+        check.getUTCSeconds() !== second
+    ) {
+        return NaN
+    }
+
+    const offset = match[8]
+    if (offset != null) {
+        if (offset.toUpperCase() === 'Z') return wallClock
+        const sign = offset.startsWith('-') ? -1 : 1
+        const digits = offset.slice(1).replace(':', '')
+        const minutes = Number(digits.slice(0, 2)) * 60 +
+            Number(digits.slice(2) || 0)
+        return wallClock - sign * minutes * 60 * 1000
+    }
+
+    // Guess with the zone's offset at the wall-clock time, then correct it
+    // once in case the guess crossed a DST change.
+    let time = wallClock - getTimeZoneOffset(wallClock, timeZone)
+    time = wallClock - getTimeZoneOffset(time, timeZone)
+    return time
+}
+
+function getTimeZoneOffset (time:number, timeZone:string):number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric'
+    }).formatToParts(new Date(time))
+    const get = (type:string) => Number(
+        parts.find(part => part.type === type)?.value
+    )
+    const asUtc = Date.UTC(
+        get('year'),
+        get('month') - 1,
+        get('day'),
+        get('hour'),
+        get('minute'),
+        get('second')
+    )
+
+    return asUtc - (time - (((time % 1000) + 1000) % 1000))
+}
+
+/**
+ * The `langs`, `labels` and `tags` for a post's records. Frontmatter
+ * (`bluesky.<field>` or `<field>`) replaces the config default. Tags are only
+ * read from `bluesky.tags`, since a plain `tags` field usually belongs to the
+ * site generator.
+ */
+function resolveRecordMetadata (params:{
+    config:ResolvedConfig
+    postPath:string
+    frontmatter:Record<string, unknown>
+}):RecordMetadata {
+    const { config, frontmatter } = params
+    const langs = getNestedField(frontmatter, 'bluesky.langs') ??
+        frontmatter.langs
+    const labels = getNestedField(frontmatter, 'bluesky.labels') ??
+        frontmatter.labels
+    const tags = getNestedField(frontmatter, 'bluesky.tags')
+    const parsed = parseRecordMetadata({
+        langs,
+        labels,
+        tags,
+        where: `post "${params.postPath}"`
+    })
+
+    return {
+        langs: langs == null ? config.langs : parsed.langs,
+        labels: labels == null ? config.labels : parsed.labels,
+        tags: tags == null ? config.tags : parsed.tags
+    }
+}
+
+export function parseRecordMetadata (params:{
+    langs?:unknown
+    labels?:unknown
+    tags?:unknown
+    where:string
+}):RecordMetadata {
+    const { where } = params
+
+    const langs = unique(readStringList(params.langs, 'langs', where)
+        .map(lang => {
+            try {
+                return Intl.getCanonicalLocales(lang)[0]
+            } catch (_error) {
+                throw new Error(
+                    `Invalid lang "${lang}" in ${where}. Use a language ` +
+                    'tag like "en" or "pt-BR".'
+                )
+            }
+        }))
+    if (langs.length > MAX_LANGS) {
+        throw new Error(
+            `Too many langs in ${where}: ${langs.length}. ` +
+            `Bluesky allows ${MAX_LANGS}.`
+        )
+    }
+
+    const labels = unique(readStringList(params.labels, 'labels', where))
+    for (const label of labels) {
+        if (!SELF_LABELS.includes(label as SelfLabel)) {
+            throw new Error(
+                `Invalid label "${label}" in ${where}. ` +
+                `Use one of: ${SELF_LABELS.join(', ')}`
+            )
+        }
+    }
+
+    const tags = unique(readStringList(params.tags, 'tags', where)
+        .map(tag => tag.replace(/^#/, '')))
+    for (const tag of tags) {
+        const length = measurePostLength(tag)
+        if (
+            tag === '' ||
+            length.graphemes > MAX_TAG_LENGTH ||
+            length.bytes > MAX_TAG_BYTES
+        ) {
+            throw new Error(
+                `Invalid tag "${tag}" in ${where}. Tags must be 1 to ` +
+                `${MAX_TAG_LENGTH} characters.`
+            )
+        }
+    }
+    if (tags.length > MAX_TAGS) {
+        throw new Error(
+            `Too many tags in ${where}: ${tags.length}. ` +
+            `Bluesky allows ${MAX_TAGS}.`
+        )
+    }
+
+    return { langs, labels: labels as SelfLabel[], tags }
+}
+
+function unique (values:string[]):string[] {
+    return [...new Set(values)]
+}
+
+function resolvePostGates (params:{
+    config:ResolvedConfig
+    postPath:string
+    frontmatter:Record<string, unknown>
+}):PostGates {
+    const { config, frontmatter } = params
+    const allowReplies = getNestedField(frontmatter, 'bluesky.allowReplies') ??
+        frontmatter.allowReplies
+    const allowQuotes = getNestedField(frontmatter, 'bluesky.allowQuotes') ??
+        frontmatter.allowQuotes
+    const parsed = parsePostGates({
+        allowReplies,
+        allowQuotes,
+        where: `post "${params.postPath}"`
+    })
+
+    return {
+        allowReplies: allowReplies == null
+            ? config.allowReplies
+            : parsed.allowReplies,
+        allowQuotes: allowQuotes == null
+            ? config.allowQuotes
+            : parsed.allowQuotes
+    }
+}
+
+export function parsePostGates (params:{
+    allowReplies?:unknown
+    allowQuotes?:unknown
+    where:string
+}):PostGates {
+    const { where } = params
+    let allowReplies:string[]|null = null
+
+    if (params.allowReplies === false) {
+        allowReplies = []
+    } else if (params.allowReplies != null && params.allowReplies !== true) {
+        allowReplies = unique(
+            readStringList(params.allowReplies, 'allowReplies', where)
+        )
+        for (const rule of allowReplies) {
+            const isList = rule.startsWith('at://') &&
+                parseAtUri(rule).collection === 'app.bsky.graph.list'
+            if (!isList && !Object.hasOwn(THREADGATE_RULES, rule)) {
+                throw new Error(
+                    `Invalid allowReplies rule "${rule}" in ${where}. Use ` +
+                    `${Object.keys(THREADGATE_RULES).join(', ')} or the ` +
+                    'at:// URI of a list.'
+                )
+            }
+        }
+        if (allowReplies.length > MAX_THREADGATE_RULES) {
+            throw new Error(
+                `Too many allowReplies rules in ${where}: ` +
+                `${allowReplies.length}. Bluesky allows ` +
+                `${MAX_THREADGATE_RULES}.`
+            )
+        }
+    }
+
+    if (params.allowQuotes != null && typeof params.allowQuotes !== 'boolean') {
+        throw new Error(
+            `Invalid allowQuotes in ${where}. Use true or false.`
+        )
+    }
+
+    return { allowReplies, allowQuotes: params.allowQuotes !== false }
+}
+
+function readStringList (
+    value:unknown,
+    name:string,
+    where:string
+):string[] {
+    if (value == null) return []
+    const items = typeof value === 'string' ? value.split(',') : value
+    if (
+        !Array.isArray(items) ||
+        items.some(item => typeof item !== 'string')
+    ) {
+        throw new Error(
+            `Invalid ${name} in ${where}. Use a list of strings.`
+        )
+    }
+
+    return items.map(item => item.trim()).filter(item => item !== '')
+}
+
+function readPostSource (repoRoot:string, postPath:string):{
+    markdown:string
+    frontmatter:Record<string, unknown>
+} {
+    const markdown = readGitBytes(
+        repoRoot,
+        ['show', `HEAD:${postPath}`]
+    ).toString('utf8')
+
+    return {
+        markdown,
+        frontmatter: splitFrontmatter(markdown).frontmatter
+    }
+}
+
+function buildDraft (params:{
+    repoRoot:string
+    config:ResolvedConfig
+    postsRootSpec:string
+    postPath:string
+    markdown:string
+    frontmatter:Record<string, unknown>
+    // the key of the entry already published or planned for this post
+    documentRkey?:string
+    io:CliIO
+}):DraftPost {
+    const { config, postPath, frontmatter } = params
+    const parsed = parsePostFields(params.markdown, {
+        postTextField: config.postTextField,
+        shortenLinks: config.shortenLinks,
+        thread: config.thread
+    })
+    const document = config.target === 'bluesky'
+        ? readDraftDocument(params)
+        : null
+    const backlinkUrl = config.linkToEntry && document != null
+        ? `https://whtwnd.com/${config.handle}/${document.rkey}`
+        : resolveBacklinkUrl({
+            postPath,
+            postsRootSpec: params.postsRootSpec,
+            frontmatter,
+            config
+        })
+
+    if (backlinkUrl == null) {
+        throw new Error(
+            'Could not resolve backlink URL for "' +
+            `${postPath}". Set "baseUrl" in noat.config.*.`
+        )
+    }
+
+    const mode = config.backlinkMode
+    const segmentTexts = splitDraftText({
+        text: parsed.text,
+        backlinkUrl: mode === 'card' ? null : backlinkUrl,
+        config
+    })
+    const segments:DraftSegment[] = segmentTexts.map(segmentText => {
+        const richText = buildRichText(segmentText, {
+            shortenLinks: config.shortenLinks
+        })
+        assertPostLength(richText.text, postPath)
+        return {
+            text: richText.text,
+            facets: richText.facets,
+            images: []
+        }
+    })
+    const attachIndex = config.threadAttach === 'last'
+        ? segments.length - 1
+        : 0
+
+    const aspectRatioOverride = getAspectRatioOverride(frontmatter)
+    const images = parsed.images.map((reference, index):DraftImage => {
+        const imageRepoPath = resolveGitRelativePath(
+            postPath,
+            reference.path
+        )
+        const mimeType = detectImageMimeType(imageRepoPath)
+        const bytes = readGitBytes(
+            params.repoRoot,
+            ['show', `HEAD:${imageRepoPath}`]
+        )
+        const override = Array.isArray(aspectRatioOverride)
+            ? aspectRatioOverride[index]
+            : aspectRatioOverride
+        const aspectRatio = override != null
+            ? parseAspectRatio(override)
+            : readImageDimensions(bytes, mimeType)
+
+        return {
+            path: imageRepoPath,
+            alt: reference.alt,
+            mimeType,
+            bytes,
+            ...(aspectRatio == null ? {} : { aspectRatio })
+        }
+    })
+
+    if (parsed.videos.length > 0) {
+        segments[attachIndex].video = readDraftVideo({
+            repoRoot: params.repoRoot,
+            postPath,
+            frontmatter,
+            videos: parsed.videos,
+            hasImages: images.length > 0,
+            backlinkMode: mode
+        })
+    }
+
+    // A record can only carry one embed, so a link card takes the
+    // images' place and shows the first one as its thumbnail.
+    if (mode === 'inline') {
+        const groups = groupImages(
+            images,
+            config.imageOverflow,
+            postPath
+        )
+        const dropped = images.slice(groups.flat().length)
+        if (dropped.length > 0) {
+            params.io.error(
+                `[noat] warning: ${postPath} has more than ` +
+                `${MAX_IMAGES_PER_POST} images, leaving out ` +
+                `${dropped.map(image => image.path).join(', ')}. Set ` +
+                '"imageOverflow" to "split" to post them all.'
+            )
+        }
+        segments[attachIndex].images = groups[0] ?? []
+        for (const group of groups.slice(1)) {
+            segments.push({ text: '', facets: [], images: group })
+        }
+    } else {
+        if (images.length > 1) {
+            params.io.error(
+                `[noat] warning: ${postPath} shows only its first image, ` +
+                'as the link card thumbnail, leaving out ' +
+                `${images.slice(1).map(image => image.path).join(', ')}. ` +
+                'Set "backlinkMode" to "inline" to post them all.'
+            )
+        }
+        segments[attachIndex].card = {
+            ...buildExternalCard({ frontmatter, backlinkUrl }),
+            thumb: images[0]
+        }
+    }
+
+    // Every post of a thread gets the langs and labels, only the first
+    // gets the tags.
+    const metadata = resolveRecordMetadata({ config, postPath, frontmatter })
+    for (const [index, segment] of segments.entries()) {
+        segment.langs = metadata.langs
+        segment.labels = metadata.labels
+        segment.tags = index === 0 ? metadata.tags : []
+    }
+
+    // Reply and quote links, gates, backdating and long-form entries are
+    // AT Protocol features, so other targets publish the post alone.
+    if (config.target !== 'bluesky') {
+        return {
+            path: postPath,
+            ...segments[0],
+            replies: segments.slice(1),
+            gates: { allowReplies: null, allowQuotes: true },
+            contentHash: hashDraftSegments(segments)
         }
     }
 
-    const url = `${trimTrailingSlash(params.pdsUrl)}` +
-        '/xrpc/com.atproto.repo.createRecord'
-    const response = await params.fetchImpl(url, {
-        method: 'POST',
-        headers: {
-            authorization: `Bearer ${params.session.accessJwt}`,
-            'content-type': 'application/json'
-        },
-        body: JSON.stringify({
-            repo: params.session.did,
-            collection: 'app.bsky.feed.post',
-            record
+    const replyTo = parsePostLink({ ...params, field: 'replyTo' })
+    const quote = parsePostLink({ ...params, field: 'quote' })
+    const createdAt = config.backdate
+        ? resolveCreatedAt({
+            postPath,
+            date: readRawFrontmatterField(params.markdown, 'date'),
+            timezone: config.timezone
         })
-    })
+        : null
+    const gates = resolvePostGates({ config, postPath, frontmatter })
 
-    const context = `create record for ${params.draft.path}`
-    const json = await parseJsonResponse(response, context)
-    const uri = resolveString(json.uri)
-    const cid = resolveString(json.cid)
-    if (uri == null || cid == null) {
+    return {
+        path: postPath,
+        ...segments[0],
+        replies: segments.slice(1),
+        ...(replyTo == null ? {} : { replyTo }),
+        ...(quote == null ? {} : { quote }),
+        gates,
+        ...(createdAt == null ? {} : { createdAt }),
+        ...(document == null ? {} : { document }),
+        contentHash: hashDraftSegments(segments, {
+            replyTo,
+            quote,
+            document,
+            gates
+        })
+    }
+}
+
+function readDraftDocument (params:{
+    repoRoot:string
+    config:ResolvedConfig
+    postPath:string
+    markdown:string
+    frontmatter:Record<string, unknown>
+    documentRkey?:string
+}):DraftDocument|null {
+    const { postPath, frontmatter } = params
+    const enabled = getNestedField(frontmatter, 'bluesky.longForm') ??
+        frontmatter.longForm
+    if (enabled != null && typeof enabled !== 'boolean') {
         throw new Error(
-            'Unexpected createRecord response for ' +
-            params.draft.path
+            `Post "${postPath}" has an invalid longForm ` +
+            `"${String(enabled)}". Use true or false.`
         )
     }
+    if (!(enabled ?? params.config.longForm)) return null
 
-    return { uri, cid }
+    // The lexicon limits are in UTF-8 bytes.
+    const content = splitFrontmatter(params.markdown).content.trim()
+    const contentBytes = Buffer.byteLength(content)
+    if (contentBytes > MAX_DOCUMENT_LENGTH) {
+        throw new Error(
+            `Post "${postPath}" is too long for a long-form entry: ` +
+            `${contentBytes} bytes. WhiteWind allows ` +
+            `${MAX_DOCUMENT_LENGTH}.`
+        )
+    }
+
+    const title = resolveString(frontmatter.title)
+    const titleBytes = title == null ? 0 : Buffer.byteLength(title)
+    if (titleBytes > MAX_DOCUMENT_TITLE_LENGTH) {
+        throw new Error(
+            `Post "${postPath}" has a title that is too long for a ` +
+            `long-form entry: ${titleBytes} bytes. WhiteWind allows ` +
+            `${MAX_DOCUMENT_TITLE_LENGTH}.`
+        )
+    }
+
+    // Remote images stay as they are; each local one is uploaded once.
+    const images:DraftDocumentImage[] = []
+    for (const { path } of findMarkdownImages(content)) {
+        if (isRemotePath(path) || images.some(image => image.path === path)) {
+            continue
+        }
+
+        const imageRepoPath = resolveGitRelativePath(postPath, path)
+        images.push({
+            path,
+            mimeType: detectImageMimeType(imageRepoPath),
+            bytes: readGitBytes(
+                params.repoRoot,
+                ['show', `HEAD:${imageRepoPath}`]
+            )
+        })
+    }
+
+    return {
+        rkey: params.documentRkey ?? createTid(),
+        ...(title == null ? {} : { title }),
+        content,
+        images
+    }
 }
 
-async function uploadBlob (params:{
-    fetchImpl:FetchLike
-    pdsUrl:string
-    session:BlueskySession
-    bytes:Buffer
-    mimeType:string
-}):Promise<BlueskyBlob> {
-    const url = `${trimTrailingSlash(params.pdsUrl)}` +
-        '/xrpc/com.atproto.repo.uploadBlob'
-    const response = await params.fetchImpl(url, {
-        method: 'POST',
-        headers: {
-            authorization: `Bearer ${params.session.accessJwt}`,
-            'content-type': params.mimeType
-        },
-        body: params.bytes
-    })
+function isRemotePath (path:string):boolean {
+    return path.startsWith('//') || /^[a-z][a-z0-9+.-]*:/i.test(path)
+}
 
-    const json = await parseJsonResponse(response, 'upload blob')
-    if (json.blob == null || typeof json.blob !== 'object') {
-        throw new Error('Unexpected uploadBlob response: missing "blob" object')
+export function parsePostLink (params:{
+    repoRoot:string
+    config:ResolvedConfig
+    postPath:string
+    frontmatter:Record<string, unknown>
+    field:'replyTo'|'quote'
+}):PostLink|null {
+    const { postPath, field } = params
+    const raw = getNestedField(params.frontmatter, `bluesky.${field}`) ??
+        params.frontmatter[field]
+    if (raw == null) return null
+
+    const value = resolveString(raw)
+    if (value == null) {
+        throw new Error(
+            `Post "${postPath}" has an invalid ${field}. Use a bsky.app ` +
+            'post URL, an at:// URI, or the path of a published post.'
+        )
     }
 
-    return json.blob as BlueskyBlob
+    if (value.startsWith('at://')) {
+        const parsed = parseAtUri(value)
+        if (parsed.collection !== 'app.bsky.feed.post') {
+            throw new Error(
+                `Post "${postPath}" has ${field} "${value}", which is not ` +
+                'a Bluesky post.'
+            )
+        }
+
+        return { repo: parsed.repo, rkey: parsed.rkey, source: value }
+    }
+
+    if (/^https?:\/\//i.test(value)) {
+        const parsed = parseBlueskyPostUrl(value)
+        return { repo: parsed.actor, rkey: parsed.rkey, source: value }
+    }
+
+    const linkedPath = posix.normalize(value.replace(/^\/+/, ''))
+    if (linkedPath === '..' || linkedPath.startsWith('../')) {
+        throw new Error(`Path "${value}" resolves outside repo root`)
+    }
+
+    let source:ReturnType<typeof readPostSource>
+    try {
+        source = readPostSource(params.repoRoot, linkedPath)
+    } catch (_error) {
+        throw new Error(
+            `Post "${postPath}" has ${field} "${value}", which is not a ` +
+            'committed file in the repo.'
+        )
+    }
+
+    if (!isPublished(source.frontmatter, params.config)) {
+        throw new Error(
+            `Post "${postPath}" has ${field} "${value}", which has not ` +
+            'been published yet. Publish it first.'
+        )
+    }
+
+    const ref = getPublishedRef(source.frontmatter, params.config, linkedPath)
+    return {
+        repo: ref.repo ?? parseBlueskyPostUrl(ref.source).actor,
+        rkey: ref.rkey,
+        source: value
+    }
 }
 
-async function parseJsonResponse (
-    response:any,
-    context:string
-):Promise<JsonRecord> {
-    const bodyText = await response.text()
-    let parsed:unknown = {}
+function readDraftVideo (params:{
+    repoRoot:string
+    postPath:string
+    frontmatter:Record<string, unknown>
+    videos:MarkdownVideoReference[]
+    hasImages:boolean
+    backlinkMode:BacklinkMode
+}):DraftVideo {
+    const { postPath, frontmatter } = params
+    if (params.videos.length > 1) {
+        throw new Error(
+            `Post "${postPath}" has ${params.videos.length} videos. ` +
+            'Bluesky allows one video per post.'
+        )
+    }
+    if (params.hasImages) {
+        throw new Error(
+            `Post "${postPath}" has a video and images. A Bluesky post can ` +
+            'have one or the other.'
+        )
+    }
+    if (params.backlinkMode !== 'inline') {
+        throw new Error(
+            `Post "${postPath}" has a video, which cannot be shown with a ` +
+            'link card. Use backlinkMode "inline".'
+        )
+    }
 
-    if (bodyText.trim() !== '') {
+    const [reference] = params.videos
+    const path = resolveGitRelativePath(postPath, reference.path)
+    if (!isVideoPath(path)) {
+        throw new Error(
+            `Video "${path}" is not a video Bluesky takes. Use an .mp4, ` +
+            '.webm or .mov file.'
+        )
+    }
+    const mimeType = VIDEO_MIME_BY_EXTENSION[extname(path).toLowerCase()]
+    const bytes = readGitBytes(params.repoRoot, ['show', `HEAD:${path}`])
+    if (bytes.length > MAX_VIDEO_BYTES) {
+        throw new Error(
+            `Video "${path}" is ${formatBytes(bytes.length)}. Bluesky ` +
+            `allows up to ${formatBytes(MAX_VIDEO_BYTES)}.`
+        )
+    }
+
+    const frontmatterCaptions = getNestedField(frontmatter, 'captions')
+    if (
+        frontmatterCaptions != null &&
+        (typeof frontmatterCaptions !== 'object' ||
+            Array.isArray(frontmatterCaptions))
+    ) {
+        throw new Error(
+            `Post "${postPath}" has invalid captions. Use a map of ` +
+            'language to .vtt file, like "en: ./clip.en.vtt".'
+        )
+    }
+    const captionRefs = [
+        ...reference.captions,
+        ...Object.entries(frontmatterCaptions ?? {})
+            .map(([lang, file]) => ({ lang, path: String(file) }))
+    ]
+    if (captionRefs.length > MAX_CAPTIONS) {
+        throw new Error(
+            `Video "${path}" has ${captionRefs.length} captions. ` +
+            `Bluesky allows ${MAX_CAPTIONS}.`
+        )
+    }
+
+    const captions = captionRefs.map(caption => {
+        const captionPath = resolveGitRelativePath(postPath, caption.path)
+        let lang:string
         try {
-            parsed = JSON.parse(bodyText)
-        } catch (error) {
-            const message = (error as Error).message
+            lang = Intl.getCanonicalLocales(caption.lang)[0]
+        } catch (_error) {
+            lang = ''
+        }
+        if (lang == null || lang === '') {
             throw new Error(
-                `Could not parse JSON for ${context}: ${message}`
+                `Caption "${captionPath}" has no valid language. Set ` +
+                'srclang, like srclang="en".'
+            )
+        }
+        if (extname(captionPath).toLowerCase() !== '.vtt') {
+            throw new Error(
+                `Caption "${captionPath}" must be a WebVTT (.vtt) file.`
+            )
+        }
+
+        const captionBytes = readGitBytes(
+            params.repoRoot,
+            ['show', `HEAD:${captionPath}`]
+        )
+        if (captionBytes.length > MAX_CAPTION_BYTES) {
+            throw new Error(
+                `Caption "${captionPath}" is ` +
+                `${formatBytes(captionBytes.length)}. Bluesky allows up to ` +
+                `${formatBytes(MAX_CAPTION_BYTES)}.`
             )
         }
+
+        return { lang, path: captionPath, bytes: captionBytes }
+    })
+
+    const override = getAspectRatioOverride(frontmatter)
+    const aspectRatio = override == null
+        ? undefined
+        : parseAspectRatio(Array.isArray(override) ? override[0] : override)
+
+    return {
+        path,
+        alt: reference.alt,
+        mimeType,
+        bytes,
+        ...(aspectRatio == null ? {} : { aspectRatio }),
+        captions
     }
+}
 
-    if (!response.ok) {
-        const message = extractApiError(parsed) ?? response.statusText
+/**
+ * Hash everything that ends up in the published records, so later runs can
+ * tell whether a post changed. Images are hashed as they are in git, before
+ * any resizing.
+ */
+function hashDraftSegments (
+    segments:DraftSegment[],
+    extra:{
+        replyTo?:PostLink|null
+        quote?:PostLink|null
+        document?:DraftDocument|null
+        gates?:PostGates
+    } = {}
+):string {
+    const sha256 = (bytes:Buffer) =>
+        createHash('sha256').update(bytes).digest('hex')
+    const imageSummary = (image?:DraftImage) => image == null
+        ? null
+        : {
+            path: image.path,
+            alt: image.alt,
+            aspectRatio: image.aspectRatio ?? null,
+            sha256: sha256(image.bytes)
+        }
+    const content = segments.map(segment => ({
+        text: segment.text,
+        facets: segment.facets,
+        images: segment.images.map(imageSummary),
+        card: segment.card == null
+            ? null
+            : {
+                uri: segment.card.uri,
+                title: segment.card.title,
+                description: segment.card.description,
+                thumb: imageSummary(segment.card.thumb)
+            },
+        // Left out when empty, like the links below.
+        ...(segment.video == null
+            ? {}
+            : {
+                video: {
+                    path: segment.video.path,
+                    alt: segment.video.alt,
+                    aspectRatio: segment.video.aspectRatio ?? null,
+                    sha256: sha256(segment.video.bytes),
+                    captions: segment.video.captions.map(caption => ({
+                        lang: caption.lang,
+                        sha256: sha256(caption.bytes)
+                    }))
+                }
+            }),
+        ...(segment.langs?.length ? { langs: segment.langs } : {}),
+        ...(segment.labels?.length ? { labels: segment.labels } : {}),
+        ...(segment.tags?.length ? { tags: segment.tags } : {})
+    }))
+    // Only mixed in when set, so posts without links, gates or a long-form
+    // copy keep their old hash.
+    const { replyTo, quote, document } = extra
+    const gates = extra.gates != null && isGated(extra.gates)
+        ? extra.gates
+        : null
+    const hashed = replyTo == null && quote == null && document == null &&
+        gates == null
+        ? content
+        : {
+            segments: content,
+            replyTo: replyTo?.source ?? null,
+            quote: quote?.source ?? null,
+            ...(document == null
+                ? {}
+                : {
+                    document: {
+                        title: document.title ?? null,
+                        content: document.content,
+                        images: document.images.map(image => ({
+                            path: image.path,
+                            sha256: sha256(image.bytes)
+                        }))
+                    }
+                }),
+            ...(gates == null ? {} : { gates })
+        }
+
+    const digest = createHash('sha256')
+        .update(JSON.stringify(hashed))
+        .digest('hex')
+    return `sha256:${digest}`
+}
+
+async function fitDraftImages (params:{
+    draft:DraftPost
+    config:ResolvedConfig
+    verbose:boolean
+    io:CliIO
+}):Promise<void> {
+    const images = new Set<DraftImage>()
+    for (const segment of [params.draft, ...params.draft.replies]) {
+        for (const image of segment.images) images.add(image)
+        if (segment.card?.thumb != null) images.add(segment.card.thumb)
+    }
+
+    for (const image of images) {
+        await fitImageToBlobLimit({
+            image,
+            resizeImages: params.config.resizeImages,
+            verbose: params.verbose,
+            io: params.io
+        })
+    }
+}
+
+function splitDraftText (params:{
+    text:string
+    backlinkUrl:string|null
+    config:ResolvedConfig
+}):string[] {
+    const { text, backlinkUrl, config } = params
+    if (!config.thread) {
+        return [backlinkUrl == null ? text : appendBacklink(text, backlinkUrl)]
+    }
+
+    const shortenLinks = config.shortenLinks
+    if (backlinkUrl == null || config.threadAttach === 'last') {
+        return splitPostText(
+            backlinkUrl == null ? text : appendBacklink(text, backlinkUrl),
+            { shortenLinks }
+        )
+    }
+
+    // leave room for the backlink at the end of the first segment
+    const backlinkLength = measurePostText(
+        appendBacklink('', backlinkUrl),
+        shortenLinks
+    )
+    const segments = splitPostText(text, {
+        shortenLinks,
+        firstLimit: MAX_POST_LENGTH - backlinkLength
+    })
+    segments[0] = appendBacklink(segments[0], backlinkUrl)
+    return segments
+}
+
+/**
+ * Split post text into chunks that each fit in one post, breaking on
+ * paragraphs first, then sentences, then words. Lengths are measured on
+ * the displayed text, so markdown links count as their label.
+ */
+export function splitPostText (
+    text:string,
+    options:{
+        limit?:number
+        firstLimit?:number
+        shortenLinks?:boolean
+    } = {}
+):string[] {
+    const limit = options.limit ?? MAX_POST_LENGTH
+    const firstLimit = options.firstLimit ?? limit
+    const segments:string[] = []
+    let current = ''
+
+    const fits = (value:string) => {
+        const max = segments.length === 0 ? firstLimit : limit
+        const rendered = buildRichText(value, {
+            shortenLinks: options.shortenLinks
+        }).text
+        const length = measurePostLength(rendered)
+        return length.graphemes <= max && length.bytes <= MAX_POST_BYTES
+    }
+
+    const pack = (pieces:string[], level:number) => {
+        const separator = TEXT_SPLIT_LEVELS[level].separator
+        for (const piece of pieces) {
+            const candidate = current === ''
+                ? piece
+                : `${current}${separator}${piece}`
+            if (fits(candidate)) {
+                current = candidate
+                continue
+            }
+
+            if (current !== '') {
+                segments.push(current)
+                current = ''
+            }
+
+            if (fits(piece) || level === TEXT_SPLIT_LEVELS.length - 1) {
+                current = piece
+                continue
+            }
+
+            pack(TEXT_SPLIT_LEVELS[level + 1].split(piece), level + 1)
+        }
+    }
+
+    pack(TEXT_SPLIT_LEVELS[0].split(text.trim()), 0)
+    if (current !== '') segments.push(current)
+    return segments
+}
+
+const TEXT_SPLIT_LEVELS:Array<{
+    separator:string
+    split:(text:string)=>string[]
+}> = [
+    {
+        separator: '\n\n',
+        split: text => splitNonEmpty(text, /\n\s*\n/)
+    },
+    {
+        separator: ' ',
+        split: text => splitNonEmpty(text, /(?<=[.!?…])\s+/)
+    },
+    {
+        // keep markdown links together, their label can contain spaces
+        separator: ' ',
+        split: text => text.match(/\[[^\]\n]+\]\([^)\s]+\)|\S+/g) ?? []
+    },
+    {
+        separator: '',
+        split: text => splitGraphemes(text)
+    }
+]
+
+function splitNonEmpty (text:string, pattern:RegExp):string[] {
+    return text
+        .split(pattern)
+        .map(piece => piece.trim())
+        .filter(piece => piece !== '')
+}
+
+function measurePostText (text:string, shortenLinks?:boolean):number {
+    return measurePostLength(buildRichText(text, { shortenLinks }).text)
+        .graphemes
+}
+
+/**
+ * Make sure an image fits the PDS blob size limit before anything is
+ * uploaded. Oversized images fail the publish, or are re-encoded in memory
+ * when `resizeImages` is set. The file in git is never changed.
+ */
+async function fitImageToBlobLimit (params:{
+    image:DraftImage
+    resizeImages:boolean
+    verbose:boolean
+    io:CliIO
+}):Promise<void> {
+    const image = params.image
+    const originalSize = image.bytes.length
+    if (originalSize <= MAX_IMAGE_BYTES) return
+
+    if (!params.resizeImages) {
         throw new Error(
-            `Bluesky API error (${context}) ` +
-            `[${response.status}]: ${message}`
+            `Image "${image.path}" is ${formatBytes(originalSize)}, over ` +
+            `the ${formatBytes(MAX_IMAGE_BYTES)} limit for Bluesky images. ` +
+            'Shrink the file or set "resizeImages" to true.'
         )
     }
 
-    if (parsed == null || typeof parsed !== 'object') {
-        throw new Error(`Expected JSON object for ${context}`)
+    const resized = await downscaleImage({
+        bytes: image.bytes,
+        maxBytes: MAX_IMAGE_BYTES
+    })
+    image.bytes = resized.bytes
+    image.mimeType = resized.mimeType
+
+    if (params.verbose) {
+        params.io.log(
+            `[noat] resized ${image.path}: ${formatBytes(originalSize)} -> ` +
+            `${formatBytes(resized.bytes.length)} (${resized.mimeType})`
+        )
+    }
+}
+
+export async function downscaleImage (params:{
+    bytes:Buffer
+    maxBytes:number
+}):Promise<{ bytes:Buffer, mimeType:string }> {
+    const sharp = loadSharp()
+    const metadata = await sharp(params.bytes).metadata()
+    const hasAlpha = metadata.hasAlpha === true
+    const mimeType = hasAlpha ? 'image/webp' : 'image/jpeg'
+    let maxSide = Math.max(metadata.width ?? 0, metadata.height ?? 0) || 2000
+
+    for (let attempt = 0; attempt < 8; attempt += 1) {
+        const pipeline = sharp(params.bytes)
+            .rotate()
+            .resize({
+                width: maxSide,
+                height: maxSide,
+                fit: 'inside',
+                withoutEnlargement: true
+            })
+        const bytes:Buffer = hasAlpha
+            ? await pipeline.webp({ quality: 80 }).toBuffer()
+            : await pipeline.jpeg({ quality: 80, mozjpeg: true }).toBuffer()
+
+        if (bytes.length <= params.maxBytes) {
+            return { bytes, mimeType }
+        }
+
+        const scale = Math.sqrt(params.maxBytes / bytes.length) * 0.9
+        maxSide = Math.max(1, Math.floor(maxSide * scale))
+    }
+
+    throw new Error(
+        `Could not shrink image below ${formatBytes(params.maxBytes)}`
+    )
+}
+
+function loadSharp ():SharpFactory {
+    try {
+        return require('sharp') as SharpFactory
+    } catch (_error) {
+        throw new Error(
+            'Resizing images requires the "sharp" package. ' +
+            'Install it with "npm i -S sharp".'
+        )
+    }
+}
+
+function formatBytes (size:number):string {
+    if (size >= 1000000) return `${(size / 1000000).toFixed(1)} MB`
+    if (size >= 1000) return `${Math.round(size / 1000)} KB`
+    return `${size} B`
+}
+
+function groupImages (
+    images:DraftImage[],
+    overflow:ImageOverflow,
+    postPath:string
+):DraftImage[][] {
+    if (images.length <= MAX_IMAGES_PER_POST) {
+        return images.length === 0 ? [] : [images]
+    }
+
+    if (overflow === 'error') {
+        throw new Error(
+            `Post "${postPath}" has ${images.length} images, but Bluesky ` +
+            `allows ${MAX_IMAGES_PER_POST} per post. Set "imageOverflow" ` +
+            'to "truncate" or "split".'
+        )
+    }
+
+    if (overflow === 'truncate') {
+        return [images.slice(0, MAX_IMAGES_PER_POST)]
+    }
+
+    const groups:DraftImage[][] = []
+    for (let index = 0; index < images.length; index += MAX_IMAGES_PER_POST) {
+        groups.push(images.slice(index, index + MAX_IMAGES_PER_POST))
+    }
+
+    return groups
+}
+
+function getAspectRatioOverride (
+    frontmatter:Record<string, unknown>
+):unknown {
+    for (const fieldPath of ['bluesky.aspectRatio', 'aspectRatio']) {
+        const value = getNestedField(frontmatter, fieldPath)
+        if (value != null) return value
+    }
+
+    return undefined
+}
+
+export function parseAspectRatio (value:unknown):ImageDimensions {
+    let width:unknown
+    let height:unknown
+
+    if (typeof value === 'string') {
+        const match = /^\s*(\d+)\s*[:x/]\s*(\d+)\s*$/i.exec(value)
+        if (match != null) {
+            width = Number.parseInt(match[1], 10)
+            height = Number.parseInt(match[2], 10)
+        }
+    } else if (value != null && typeof value === 'object') {
+        width = (value as JsonRecord).width
+        height = (value as JsonRecord).height
+    }
+
+    if (
+        typeof width !== 'number' ||
+        typeof height !== 'number' ||
+        !Number.isInteger(width) ||
+        !Number.isInteger(height) ||
+        width < 1 ||
+        height < 1
+    ) {
+        throw new Error(
+            `Invalid aspectRatio ${JSON.stringify(value)}. ` +
+            'Use "width:height" or { width, height } with positive integers.'
+        )
     }
 
-    return parsed as JsonRecord
+    return { width, height }
 }
 
-export function toBlueskyPostUrl (handle:string, atUri:string):string {
-    const match = /\/app\.bsky\.feed\.post\/([^/]+)$/.exec(atUri)
-    if (match == null) {
-        throw new Error(`Could not derive Bluesky post URL from "${atUri}"`)
+export function readImageDimensions (
+    bytes:Buffer,
+    mimeType:string
+):ImageDimensions | null {
+    try {
+        switch (mimeType) {
+            case 'image/png': return readPngDimensions(bytes)
+            case 'image/gif': return readGifDimensions(bytes)
+            case 'image/jpeg': return readJpegDimensions(bytes)
+            case 'image/webp': return readWebpDimensions(bytes)
+            case 'image/avif': return readAvifDimensions(bytes)
+            default: return null
+        }
+    } catch (_error) {
+        // reads past the end of a truncated file throw a RangeError
+        return null
     }
-
-    const postId = encodeURIComponent(match[1])
-    const encodedHandle = encodeURIComponent(handle)
-    return `https://bsky.app/profile/${encodedHandle}/post/${postId}`
 }
 
-function extractApiError (payload:unknown):string|null {
-    if (payload == null || typeof payload !== 'object') return null
-    const message = resolveString((payload as JsonRecord).message)
-    const error = resolveString((payload as JsonRecord).error)
-    return message ?? error ?? null
-}
+function readPngDimensions (bytes:Buffer):ImageDimensions | null {
+    if (
+        bytes.readUInt32BE(0) !== 0x89504e47 ||
+        bytes.toString('latin1', 12, 16) !== 'IHDR'
+    ) {
+        return null
+    }
 
-function trimTrailingSlash (value:string):string {
-    return value.endsWith('/') ? value.slice(0, -1) : value
+    return toDimensions(bytes.readUInt32BE(16), bytes.readUInt32BE(20))
 }
 
-function buildDrafts (params:{
-    repoRoot:string
-    config:ResolvedConfig
-    postPaths:string[]
-    postsRootSpec:string
-}):DraftPost[] {
-    const drafts:DraftPost[] = []
-
-    for (const postPath of params.postPaths) {
-        const markdown = readGitBytes(
-            params.repoRoot,
-            ['show', `HEAD:${postPath}`]
-        ).toString('utf8')
-        const frontmatter = splitFrontmatter(markdown).frontmatter
-        const atUrl = getNestedField(frontmatter, DEFAULT_AT_URL_FIELD)
-        if (atUrl !== undefined) continue
-
-        const parsed = parsePostFields(markdown, {
-            postTextField: params.config.postTextField
-        })
-        const backlinkUrl = resolveBacklinkUrl({
-            postPath,
-            postsRootSpec: params.postsRootSpec,
-            frontmatter,
-            config: params.config
-        })
+function readGifDimensions (bytes:Buffer):ImageDimensions | null {
+    if (bytes.toString('latin1', 0, 3) !== 'GIF') return null
+    return toDimensions(bytes.readUInt16LE(6), bytes.readUInt16LE(8))
+}
 
-        if (backlinkUrl == null) {
-            throw new Error(
-                'Could not resolve backlink URL for "' +
-                `${postPath}". Set "baseUrl" in noat.config.*.`
-            )
-        }
+function readJpegDimensions (bytes:Buffer):ImageDimensions | null {
+    if (bytes.readUInt16BE(0) !== 0xffd8) return null
 
-        const text = appendBacklink(parsed.text, backlinkUrl)
-        assertPostLength(text, postPath)
+    let orientation = 1
+    let offset = 2
 
-        let imageRepoPath:string | undefined
-        let imageBytes:Buffer | undefined
-        let imageMimeType:string | undefined
+    while (offset + 4 <= bytes.length) {
+        if (bytes[offset] !== 0xff) return null
+        const marker = bytes[offset + 1]
 
-        if (parsed.imagePath != null) {
-            imageRepoPath = resolveGitRelativePath(postPath, parsed.imagePath)
-            imageBytes = readGitBytes(
-                params.repoRoot,
-                ['show', `HEAD:${imageRepoPath}`]
-            )
-            imageMimeType = detectImageMimeType(imageRepoPath)
+        // fill bytes and markers without a length
+        if (marker === 0xff) {
+            offset += 1
+            continue
+        }
+        if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7)) {
+            offset += 2
+            continue
         }
 
-        const draft:DraftPost = {
-            path: postPath,
-            text
+        const length = bytes.readUInt16BE(offset + 2)
+        if (marker === 0xe1) {
+            orientation = readExifOrientation(
+                bytes.subarray(offset + 4, offset + 2 + length)
+            ) ?? orientation
         }
 
+        // SOF0-SOF15, except DHT (c4), JPG (c8) and DAC (cc)
         if (
-            imageRepoPath != null &&
-            imageBytes != null &&
-            imageMimeType != null
+            marker >= 0xc0 &&
+            marker <= 0xcf &&
+            marker !== 0xc4 &&
+            marker !== 0xc8 &&
+            marker !== 0xcc
         ) {
-            draft.image = {
-                path: imageRepoPath,
-                alt: parsed.imageAlt,
-                mimeType: imageMimeType,
-                bytes: imageBytes
-            }
+            const height = bytes.readUInt16BE(offset + 5)
+            const width = bytes.readUInt16BE(offset + 7)
+            // orientations 5-8 are rotated by 90 degrees
+            return orientation >= 5
+                ? toDimensions(height, width)
+                : toDimensions(width, height)
         }
 
-        drafts.push(draft)
+        offset += 2 + length
+    }
+
+    return null
+}
+
+function readExifOrientation (segment:Buffer):number | null {
+    if (segment.toString('latin1', 0, 6) !== 'Exif\0\0') return null
+
+    const tiff = segment.subarray(6)
+    const byteOrder = tiff.toString('latin1', 0, 2)
+    if (byteOrder !== 'II' && byteOrder !== 'MM') return null
+
+    const little = byteOrder === 'II'
+    const read16 = (at:number) => little
+        ? tiff.readUInt16LE(at)
+        : tiff.readUInt16BE(at)
+    const read32 = (at:number) => little
+        ? tiff.readUInt32LE(at)
+        : tiff.readUInt32BE(at)
+
+    const ifdOffset = read32(4)
+    const entries = read16(ifdOffset)
+    for (let index = 0; index < entries; index += 1) {
+        const entry = ifdOffset + 2 + (index * 12)
+        if (read16(entry) === 0x0112) return read16(entry + 8)
+    }
+
+    return null
+}
+
+function readWebpDimensions (bytes:Buffer):ImageDimensions | null {
+    if (
+        bytes.toString('latin1', 0, 4) !== 'RIFF' ||
+        bytes.toString('latin1', 8, 12) !== 'WEBP'
+    ) {
+        return null
+    }
+
+    const chunk = bytes.toString('latin1', 12, 16)
+    if (chunk === 'VP8 ') {
+        return toDimensions(
+            bytes.readUInt16LE(26) & 0x3fff,
+            bytes.readUInt16LE(28) & 0x3fff
+        )
+    }
+
+    if (chunk === 'VP8L') {
+        const bits = bytes.readUInt32LE(21)
+        return toDimensions(
+            (bits & 0x3fff) + 1,
+            ((bits >> 14) & 0x3fff) + 1
+        )
+    }
+
+    if (chunk === 'VP8X') {
+        return toDimensions(
+            bytes.readUIntLE(24, 3) + 1,
+            bytes.readUIntLE(27, 3) + 1
+        )
+    }
+
+    return null
+}
+
+function readAvifDimensions (bytes:Buffer):ImageDimensions | null {
+    if (bytes.toString('latin1', 4, 8) !== 'ftyp') return null
+
+    // The primary image size is in an `ispe` property box. Thumbnails and
+    // alpha planes have their own, so use the largest one.
+    let best:ImageDimensions | null = null
+    let offset = bytes.indexOf('ispe', 0, 'latin1')
+    while (offset !== -1) {
+        const width = bytes.readUInt32BE(offset + 8)
+        const height = bytes.readUInt32BE(offset + 12)
+        if (best == null || width * height > best.width * best.height) {
+            best = toDimensions(width, height)
+        }
+        offset = bytes.indexOf('ispe', offset + 4, 'latin1')
+    }
+
+    // `irot` with an odd angle means the image is displayed rotated 90deg
+    const rotation = bytes.indexOf('irot', 0, 'latin1')
+    if (best != null && rotation !== -1 && (bytes[rotation + 4] & 1) === 1) {
+        return toDimensions(best.height, best.width)
     }
 
-    return drafts
+    return best
+}
+
+function toDimensions (width:number, height:number):ImageDimensions | null {
+    if (width < 1 || height < 1) return null
+    return { width, height }
 }
 
 function detectImageMimeType (filePath:string):string {
@@ -539,9 +5581,15 @@ function getRepoRoot (cwd:string):string {
     return readGitText(cwd, ['rev-parse', '--show-toplevel']).trim()
 }
 
-function assertGitRepoClean (repoRoot:string):void {
-    const status = readGitText(repoRoot, ['status', '--porcelain']).trim()
-    if (status !== '') {
+function assertGitRepoClean (
+    repoRoot:string,
+    allowedPaths:string[] = []
+):void {
+    const changes = readGitText(repoRoot, ['status', '--porcelain'])
+        .split('\n')
+        .filter(line => line.trim() !== '')
+        .filter(line => !allowedPaths.includes(line.slice(3)))
+    if (changes.length > 0) {
         throw new Error(
             'Git repo is not clean. Commit or stash local changes before ' +
             'publishing.'
@@ -549,26 +5597,39 @@ function assertGitRepoClean (repoRoot:string):void {
     }
 }
 
-function commitPublishedPosts (repoRoot:string, postPaths:string[]):string {
+function hasUncommittedChanges (repoRoot:string, postPath:string):boolean {
+    return readGitText(repoRoot, ['status', '--porcelain', '--', postPath])
+        .trim() !== ''
+}
+
+function commitPublishedPosts (
+    repoRoot:string,
+    postPaths:string[],
+    prefix:string = PUBLISH_COMMIT_PREFIX
+):string {
     if (postPaths.length === 0) {
         throw new Error(
             'No post files changed after publishing; nothing to commit.'
         )
     }
 
-    const commitNumber = getNextPublishCommitNumber(repoRoot)
-    const message = `${PUBLISH_COMMIT_PREFIX}${commitNumber}`
+    const commitNumber = getNextPublishCommitNumber(repoRoot, prefix)
+    const message = `${prefix}${commitNumber}`
     readGitText(repoRoot, ['add', '--', ...postPaths])
     readGitText(repoRoot, ['commit', '-m', message])
     return message
 }
 
-export function getNextPublishCommitNumber (repoRoot:string):number {
+export function getNextPublishCommitNumber (
+    repoRoot:string,
+    prefix:string = PUBLISH_COMMIT_PREFIX
+):number {
     const subjects = readGitText(repoRoot, ['log', '--format=%s']).trim()
     if (subjects === '') return 1
 
+    const pattern = new RegExp(`^${escapeRegex(prefix)}(\\d+)$`)
     for (const subject of subjects.split('\n')) {
-        const match = /^AT proto publish (\d+)$/.exec(subject.trim())
+        const match = pattern.exec(subject.trim())
         if (match == null) continue
         const previous = Number.parseInt(match[1], 10)
         return Number.isNaN(previous) ? 1 : previous + 1
@@ -621,18 +5682,24 @@ function gitErrorMessage (error:unknown):string {
 
 export function parsePostFields (
     markdown:string,
-    options:{ postTextField:string }
+    options:{
+        postTextField:string
+        shortenLinks?:boolean
+        thread?:boolean
+    }
 ):ParsedPostFields {
     const parsed = splitFrontmatter(markdown)
     const frontmatter = parsed.frontmatter
-    const firstImage = findFirstMarkdownImage(parsed.content)
+    const images = findMarkdownImages(parsed.content)
+    const videos = findMarkdownVideos(parsed.content)
+    const firstImage = images[0]
 
     const text = firstString(frontmatter, uniquePaths([
         options.postTextField,
         'bluesky.text',
         'text',
         'post'
-    ])) ?? stripMarkdownImages(parsed.content).trim()
+    ])) ?? stripMarkdownVideos(stripMarkdownImages(parsed.content)).trim()
 
     if (text == null || text.trim() === '') {
         throw new Error(
@@ -641,11 +5708,13 @@ export function parsePostFields (
         )
     }
 
-    const characterCount = Array.from(text).length
-    if (characterCount > 300) {
+    const overflow = describePostLengthOverflow(
+        buildRichText(text, { shortenLinks: options.shortenLinks }).text
+    )
+    if (options.thread !== true && overflow != null) {
         throw new Error(
-            'Post text must be 300 characters or fewer. ' +
-            `Received ${characterCount}.`
+            'Post text must be 300 graphemes and 3000 bytes or fewer. ' +
+            `Received ${overflow}`
         )
     }
 
@@ -655,37 +5724,143 @@ export function parsePostFields (
     return {
         text,
         imagePath,
-        imageAlt
+        imageAlt,
+        images,
+        videos
     }
 }
 
 function assertPostLength (text:string, postPath:string):void {
-    const characterCount = Array.from(text).length
-    if (characterCount > 300) {
+    const overflow = describePostLengthOverflow(text)
+    if (overflow != null) {
         throw new Error(
-            'Post text must be 300 chars or fewer after adding backlink. ' +
-            `Post "${postPath}" is ${characterCount}.`
+            'Post text must be 300 graphemes and 3000 bytes or fewer ' +
+            `after adding backlink. Post "${postPath}" is ${overflow}`
         )
     }
 }
 
-interface MarkdownImageReference {
-    alt:string
-    path:string
+export function measurePostLength (text:string):PostLength {
+    return {
+        graphemes: splitGraphemes(text).length,
+        bytes: Buffer.byteLength(text, 'utf8')
+    }
+}
+
+export function describePostLengthOverflow (text:string):string|null {
+    const graphemes = splitGraphemes(text)
+    const bytes = Buffer.byteLength(text, 'utf8')
+    if (graphemes.length <= MAX_POST_LENGTH && bytes <= MAX_POST_BYTES) {
+        return null
+    }
+
+    let index = 0
+    let byteCount = 0
+    for (; index < graphemes.length; index += 1) {
+        byteCount += Buffer.byteLength(graphemes[index], 'utf8')
+        if (index >= MAX_POST_LENGTH || byteCount > MAX_POST_BYTES) break
+    }
+
+    const before = graphemes.slice(Math.max(0, index - 20), index).join('')
+    return `${graphemes.length} graphemes and ${bytes} bytes. ` +
+        `The limit is crossed at grapheme ${index + 1}, ` +
+        `after ${JSON.stringify(before)}.`
+}
+
+function splitGraphemes (text:string):string[] {
+    return Array.from(GRAPHEME_SEGMENTER.segment(text), part => part.segment)
 }
 
 export function findFirstMarkdownImage (
     content:string
 ):MarkdownImageReference | null {
-    const match = /!\[([^\]]*)\]\(([^)\n]+)\)/.exec(content)
-    if (match == null) return null
+    return findMarkdownImages(content)[0] ?? null
+}
+
+export function findMarkdownImages (
+    content:string
+):MarkdownImageReference[] {
+    const images:MarkdownImageReference[] = []
+
+    for (const match of content.matchAll(/!\[([^\]]*)\]\(([^)\n]+)\)/g)) {
+        const alt = match[1]?.trim() ?? ''
+        const target = match[2]?.trim() ?? ''
+        const path = parseMarkdownImagePath(target)
+        if (path == null || isVideoPath(path)) continue
+
+        images.push({ alt, path })
+    }
+
+    return images
+}
+
+export function findMarkdownVideos (
+    content:string
+):MarkdownVideoReference[] {
+    const found:Array<{ index:number, video:MarkdownVideoReference }> = []
+
+    for (const match of content.matchAll(
+        /<video\b([^>]*)>([\s\S]*?)<\/video>/gi
+    )) {
+        const attributes = readHtmlAttributes(match[1])
+        const inner = match[2]
+        const source = attributes.src ??
+            [...inner.matchAll(/<source\b([^>]*)>/gi)]
+                .map(tag => readHtmlAttributes(tag[1]).src)
+                .find(src => src != null)
+        // Videos hosted elsewhere are left to the player.
+        if (source == null || isRemotePath(source)) continue
+
+        const captions = [...inner.matchAll(/<track\b([^>]*)>/gi)]
+            .map(tag => readHtmlAttributes(tag[1]))
+            .filter(track => (
+                track.src != null &&
+                ['captions', 'subtitles'].includes(track.kind ?? 'subtitles')
+            ))
+            .map(track => ({ lang: track.srclang ?? '', path: track.src }))
+
+        found.push({
+            index: match.index ?? 0,
+            video: {
+                alt: attributes['aria-label'] ?? attributes.title ?? '',
+                path: source,
+                captions
+            }
+        })
+    }
+
+    for (const match of content.matchAll(/(!?)\[([^\]]*)\]\(([^)\n]+)\)/g)) {
+        const path = parseMarkdownImagePath(match[3]?.trim() ?? '')
+        if (path == null || !isVideoPath(path)) continue
+        // Videos hosted elsewhere stay links.
+        if (isRemotePath(path)) continue
+
+        found.push({
+            index: match.index ?? 0,
+            video: { alt: match[2].trim(), path, captions: [] }
+        })
+    }
+
+    return found
+        .sort((a, b) => a.index - b.index)
+        .map(entry => entry.video)
+}
 
-    const alt = match[1]?.trim() ?? ''
-    const target = match[2]?.trim() ?? ''
-    const path = parseMarkdownImagePath(target)
-    if (path == null) return null
+function isVideoPath (path:string):boolean {
+    const extension = extname(path.split(/[?#]/)[0]).toLowerCase()
+    return VIDEO_MIME_BY_EXTENSION[extension] != null
+}
+
+function readHtmlAttributes (source:string):Record<string, string> {
+    const attributes:Record<string, string> = {}
+    const pattern = /([\w-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g
+
+    for (const match of source.matchAll(pattern)) {
+        attributes[match[1].toLowerCase()] =
+            match[2] ?? match[3] ?? match[4] ?? ''
+    }
 
-    return { alt, path }
+    return attributes
 }
 
 export function appendBacklink (text:string, backlinkUrl:string):string {
@@ -693,6 +5868,107 @@ export function appendBacklink (text:string, backlinkUrl:string):string {
     return `${text}\n\n${backlinkUrl}`
 }
 
+/**
+ * Build post text with link facets. Markdown links (`[label](url)`) are
+ * rendered as their label, and bare `http(s)` URLs are kept as-is, or
+ * shortened to `host/path...` when `shortenLinks` is set. Each link gets an
+ * `app.bsky.richtext.facet#link` facet pointing at the full URL, indexed by
+ * UTF-8 byte offsets into the returned text.
+ */
+export function buildRichText (
+    text:string,
+    options:{ shortenLinks?:boolean } = {}
+):RichText {
+    const linkPattern =
+        /\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)|https?:\/\/[^\s]+/g
+    const facets:RichTextFacet[] = []
+    let output = ''
+    let cursor = 0
+
+    for (const match of text.matchAll(linkPattern)) {
+        const start = match.index ?? 0
+        let source = match[0]
+        let uri:string
+        let label:string
+
+        if (match[2] != null) {
+            uri = match[2]
+            label = match[1].trim()
+        } else {
+            source = trimUrlPunctuation(source)
+            uri = source
+            label = options.shortenLinks === true
+                ? toShortLinkText(uri)
+                : uri
+        }
+
+        output += text.slice(cursor, start)
+        const byteStart = Buffer.byteLength(output, 'utf8')
+        output += label
+        facets.push({
+            index: {
+                byteStart,
+                byteEnd: Buffer.byteLength(output, 'utf8')
+            },
+            features: [{
+                $type: 'app.bsky.richtext.facet#link',
+                uri
+            }]
+        })
+        cursor = start + source.length
+    }
+
+    output += text.slice(cursor)
+    return { text: output, facets }
+}
+
+export function toShortLinkText (uri:string):string {
+    let parsed:URL
+    try {
+        parsed = new URL(uri)
+    } catch (_error) {
+        return uri
+    }
+
+    const host = parsed.host.replace(/^www\./, '')
+    const rest = `${parsed.pathname}${parsed.search}${parsed.hash}`
+    if (rest === '/') return host
+    if (rest.length <= 15) return `${host}${rest}`
+    return `${host}${rest.slice(0, 13)}...`
+}
+
+function trimUrlPunctuation (url:string):string {
+    let trimmed = url.replace(/[.,;:!?'"]+$/, '')
+    const opening = trimmed.split('(').length - 1
+    const closing = trimmed.split(')').length - 1
+    if (trimmed.endsWith(')') && closing > opening) {
+        trimmed = trimUrlPunctuation(trimmed.slice(0, -1))
+    }
+
+    return trimmed
+}
+
+export function buildExternalCard (params:{
+    frontmatter:Record<string, unknown>
+    backlinkUrl:string
+}):ExternalCard {
+    const title = firstString(params.frontmatter, [
+        'bluesky.title',
+        'title'
+    ]) ?? params.backlinkUrl
+    const description = firstString(params.frontmatter, [
+        'bluesky.description',
+        'description',
+        'summary'
+    ]) ?? ''
+
+    return {
+        uri: params.backlinkUrl,
+        title,
+        description
+    }
+}
+
 export function resolveBacklinkUrl (params:{
     postPath:string
     postsRootSpec:string
@@ -773,6 +6049,18 @@ function stripMarkdownImages (content:string):string {
     return content.replace(/!\[[^\]]*\]\([^)\n]+\)/g, '').trim()
 }
 
+function stripMarkdownVideos (content:string):string {
+    return content
+        .replace(/<video\b[^>]*>[\s\S]*?<\/video>/gi, '')
+        .replace(/\[([^\]]*)\]\(([^)\n]+)\)/g, (link, text, target) => {
+            const path = parseMarkdownImagePath(target.trim())
+            return path != null && isVideoPath(path) && !isRemotePath(path)
+                ? text
+                : link
+        })
+        .trim()
+}
+
 function uniquePaths (paths:string[]):string[] {
     const seen = new Set<string>()
     const output:string[] = []
@@ -791,50 +6079,66 @@ export function splitFrontmatter (markdown:string):{
     frontmatter:Record<string, unknown>
     content:string
 } {
-    const lines = markdown.split(/\r?\n/)
-    if (lines[0]?.trim() !== '---') {
+    const parts = findFrontmatter(markdown)
+    if (parts == null) {
         return {
             frontmatter: {},
             content: markdown
         }
     }
 
-    let closingIndex = -1
-    for (let index = 1; index < lines.length; index += 1) {
-        if (lines[index].trim() === '---') {
-            closingIndex = index
-            break
-        }
+    return {
+        frontmatter: parseYamlFrontmatter(parts.yamlText),
+        content: parts.content
     }
+}
 
-    if (closingIndex === -1) {
-        return {
-            frontmatter: {},
-            content: markdown
+function findFrontmatter (markdown:string):{
+    yamlText:string
+    content:string
+}|null {
+    const lines = markdown.split(/\r?\n/)
+    if (lines[0]?.trim() !== '---') return null
+
+    for (let index = 1; index < lines.length; index += 1) {
+        if (lines[index].trim() === '---') {
+            return {
+                yamlText: lines.slice(1, index).join('\n'),
+                content: lines.slice(index + 1).join('\n')
+            }
         }
     }
 
-    const frontmatterText = lines.slice(1, closingIndex).join('\n')
-    const content = lines.slice(closingIndex + 1).join('\n')
+    return null
+}
 
-    return {
-        frontmatter: parseYamlFrontmatter(frontmatterText),
-        content
-    }
+/**
+ * Read a frontmatter field with YAML timestamps left as text, so a date
+ * keeps whatever time zone it was (or was not) written with.
+ */
+function readRawFrontmatterField (markdown:string, field:string):unknown {
+    const parts = findFrontmatter(markdown)
+    if (parts == null) return undefined
+
+    const parsed = yaml.load(parts.yamlText, { schema: yaml.CORE_SCHEMA })
+    if (parsed == null || typeof parsed !== 'object') return undefined
+    return (parsed as Record<string, unknown>)[field]
 }
 
-async function writePublishedAtUrl (params:{
+async function writeFrontmatterFields (params:{
     repoRoot:string
     postPath:string
-    atUrl:string
+    // `null` removes the field
+    fields:Record<string, string|string[]|null>
 }):Promise<boolean> {
     const absolutePath = resolve(params.repoRoot, params.postPath)
     const source = await readFile(absolutePath, 'utf8')
-    const next = upsertFrontmatterField(
-        source,
-        DEFAULT_AT_URL_FIELD,
-        params.atUrl
-    )
+    let next = source
+    for (const [field, value] of Object.entries(params.fields)) {
+        next = value == null
+            ? stripFrontmatterField(next, field)
+            : upsertFrontmatterField(next, field, value)
+    }
 
     if (next === source) return false
     await writeFile(absolutePath, next, 'utf8')
@@ -844,7 +6148,7 @@ async function writePublishedAtUrl (params:{
 export function upsertFrontmatterField (
     markdown:string,
     field:string,
-    value:string
+    value:string|string[]
 ):string {
     const lines = markdown.split(/\r?\n/)
     const renderedField = `${field}: ${JSON.stringify(value)}`
@@ -1173,11 +6477,13 @@ export function normalizeConfig (params:{
     configDir:string
     env:Record<string, string|undefined>
     config:NoatConfig
+    // `noat login` never builds a post, so it does not need baseUrl
+    loginOnly?:boolean
 }):ResolvedConfig {
     const handle = resolveString(params.config.handle) ??
         resolveString(params.env.NOAT_BLUESKY_HANDLE)
 
-    if (handle == null) {
+    if (handle == null && params.config.accounts == null) {
         throw new Error(
             'Missing Bluesky handle. Configure "handle" in noat.config.* ' +
             'or NOAT_BLUESKY_HANDLE in env.'
@@ -1186,12 +6492,23 @@ export function normalizeConfig (params:{
 
     const pdsUrl = resolveString(params.config.pdsUrl) ??
         resolveString(params.env.NOAT_BLUESKY_PDS_URL) ??
-        DEFAULT_PDS_URL
+        null
+    const plcDirectoryUrl = resolveString(params.config.plcDirectoryUrl) ??
+        resolveString(params.env.NOAT_PLC_DIRECTORY_URL) ??
+        DEFAULT_PLC_DIRECTORY_URL
+    const handleResolverUrl =
+        resolveString(params.config.handleResolverUrl) ??
+        resolveString(params.env.NOAT_HANDLE_RESOLVER_URL) ??
+        DEFAULT_HANDLE_RESOLVER_URL
+    const videoServiceUrl = resolveString(params.config.videoServiceUrl) ??
+        resolveString(params.env.NOAT_VIDEO_SERVICE_URL) ??
+        DEFAULT_VIDEO_SERVICE_URL
 
     const passwordEnvVar = resolveString(params.config.passwordEnvVar) ??
         DEFAULT_PASSWORD_ENV_VAR
     const baseUrl = resolveString(params.config.baseUrl) ??
-        resolveString(params.env.NOAT_BASE_URL)
+        resolveString(params.env.NOAT_BASE_URL) ??
+        (params.loginOnly === true ? '' : null)
     if (baseUrl == null) {
         throw new Error(
             'Missing baseUrl. Configure "baseUrl" in noat.config.* ' +
@@ -1199,21 +6516,334 @@ export function normalizeConfig (params:{
         )
     }
 
+    const backlinkMode = resolveString(params.config.backlinkMode) ?? 'inline'
+    if (!BACKLINK_MODES.includes(backlinkMode as BacklinkMode)) {
+        throw new Error(
+            `Invalid backlinkMode "${backlinkMode}". ` +
+            `Use one of: ${BACKLINK_MODES.join(', ')}`
+        )
+    }
+
+    const imageOverflow = resolveString(params.config.imageOverflow) ??
+        'truncate'
+    if (!IMAGE_OVERFLOWS.includes(imageOverflow as ImageOverflow)) {
+        throw new Error(
+            `Invalid imageOverflow "${imageOverflow}". ` +
+            `Use one of: ${IMAGE_OVERFLOWS.join(', ')}`
+        )
+    }
+
+    const threadAttach = resolveString(params.config.threadAttach) ?? 'first'
+    if (!THREAD_ATTACHES.includes(threadAttach as ThreadAttach)) {
+        throw new Error(
+            `Invalid threadAttach "${threadAttach}". ` +
+            `Use one of: ${THREAD_ATTACHES.join(', ')}`
+        )
+    }
+
     const configuredPosts = resolveString(params.config.posts)
     const postsDir = configuredPosts != null
         ? resolve(params.configDir, configuredPosts)
         : resolve(params.configDir, DEFAULT_POSTS_DIR)
+    const stateDir = resolve(
+        params.configDir,
+        resolveString(params.config.stateDir) ?? DEFAULT_STATE_DIR
+    )
+    const retries = resolveNonNegativeInteger(
+        'retries',
+        params.config.retries,
+        DEFAULT_RETRIES
+    )
+    const retryDelayMs = resolveNonNegativeInteger(
+        'retryDelayMs',
+        params.config.retryDelayMs,
+        DEFAULT_RETRY_DELAY_MS
+    )
+    const timeoutMs = resolveNonNegativeInteger(
+        'timeoutMs',
+        params.config.timeoutMs,
+        DEFAULT_TIMEOUT_MS
+    )
+    if (timeoutMs === 0) {
+        throw new Error('Invalid timeoutMs "0". Use a positive number.')
+    }
+    const atUriField = resolveMarkerField(
+        'atUriField',
+        params.config.atUriField,
+        DEFAULT_AT_URI_FIELD
+    )
+    const atCidField = resolveMarkerField(
+        'atCidField',
+        params.config.atCidField,
+        DEFAULT_AT_CID_FIELD
+    )
+    const timezone = resolveString(params.config.timezone) ?? 'UTC'
+    try {
+        getTimeZoneOffset(Date.now(), timezone)
+    } catch (_error) {
+        throw new Error(
+            `Invalid timezone "${timezone}". Use an IANA time zone like ` +
+            '"UTC" or "Europe/Berlin".'
+        )
+    }
+    const metadata = parseRecordMetadata({
+        langs: params.config.langs,
+        labels: params.config.labels,
+        tags: params.config.tags,
+        where: 'config'
+    })
+    const gates = parsePostGates({
+        allowReplies: params.config.allowReplies,
+        allowQuotes: params.config.allowQuotes,
+        where: 'config'
+    })
+    const accounts = params.config.accounts == null
+        ? [{
+            name: DEFAULT_ACCOUNT_NAME,
+            target: 'bluesky' as const,
+            default: true,
+            handle: handle as string,
+            pdsUrl,
+            passwordEnvVar,
+            postsDir
+        }]
+        : resolveAccounts({
+            configDir: params.configDir,
+            accounts: params.config.accounts,
+            defaults: { pdsUrl, passwordEnvVar, postsDir }
+        })
 
     return {
-        handle,
-        pdsUrl,
-        postsDir,
-        passwordEnvVar,
+        target: accounts[0].target,
+        handle: accounts[0].handle,
+        pdsUrl: accounts[0].pdsUrl,
+        plcDirectoryUrl,
+        handleResolverUrl,
+        videoServiceUrl,
+        postsDir: accounts[0].postsDir,
+        passwordEnvVar: accounts[0].passwordEnvVar,
         baseUrl,
         postTextField:
             resolveString(params.config.postTextField) ??
-            DEFAULT_POST_TEXT_FIELD
+            DEFAULT_POST_TEXT_FIELD,
+        atUrlField: DEFAULT_AT_URL_FIELD,
+        atUriField,
+        atCidField,
+        hashField: DEFAULT_HASH_FIELD,
+        documentUriField: DEFAULT_DOCUMENT_URI_FIELD,
+        repliesField: DEFAULT_REPLIES_FIELD,
+        stateDir,
+        retries,
+        retryDelayMs,
+        timeoutMs,
+        shortenLinks: params.config.shortenLinks === true,
+        backlinkMode: backlinkMode as BacklinkMode,
+        imageOverflow: imageOverflow as ImageOverflow,
+        resizeImages: params.config.resizeImages === true,
+        thread: params.config.thread === true,
+        threadAttach: threadAttach as ThreadAttach,
+        backdate: params.config.backdate === true,
+        timezone,
+        longForm: params.config.longForm === true,
+        linkToEntry: params.config.linkToEntry === true,
+        ...metadata,
+        ...gates,
+        accounts
+    }
+}
+
+/**
+ * Read the `accounts` list of the config. Fields a Bluesky account leaves
+ * out come from the top level of the config, except the password env var,
+ * which is `NOAT_BLUESKY_APP_PASSWORD_<NAME>` for every Bluesky account
+ * but the default one. Mastodon accounts read their token from
+ * `NOAT_MASTODON_TOKEN` the same way.
+ */
+function resolveAccounts (params:{
+    configDir:string
+    accounts:unknown
+    defaults:Pick<ResolvedAccount, 'pdsUrl'|'passwordEnvVar'|'postsDir'>
+}):ResolvedAccount[] {
+    if (!Array.isArray(params.accounts) || params.accounts.length === 0) {
+        throw new Error(
+            'Invalid accounts in config. Use a list of ' +
+            '{ name, handle } objects.'
+        )
+    }
+
+    const entries = params.accounts.map(value => {
+        return (value ?? {}) as Record<string, unknown>
+    })
+    const targetOf = (account:Record<string, unknown>) => {
+        return resolveString(account.target) ?? 'bluesky'
+    }
+    const accounts:ResolvedAccount[] = []
+    for (const account of entries) {
+        const name = resolveString(account.name)
+        if (name == null || !/^[a-z0-9][a-z0-9_-]*$/i.test(name)) {
+            throw new Error(
+                `Invalid account name "${String(account.name)}". ` +
+                'Use letters, digits, "-" and "_".'
+            )
+        }
+        if (accounts.some(existing => existing.name === name)) {
+            throw new Error(`Duplicate account "${name}" in config.`)
+        }
+
+        const target = resolveString(account.target) ?? 'bluesky'
+        if (!TARGET_NAMES.includes(target as TargetName)) {
+            throw new Error(
+                `Invalid target "${target}" for account "${name}". ` +
+                `Use one of: ${TARGET_NAMES.join(', ')}.`
+            )
+        }
+
+        if (account.default != null && typeof account.default !== 'boolean') {
+            throw new Error(
+                `Invalid default "${String(account.default)}" for account ` +
+                `"${name}". Use true or false.`
+            )
+        }
+        // Marked by name rather than by position, so reordering the list
+        // never renames the fields of published posts.
+        const isDefault = account.default === true || entries.filter(entry => {
+            return targetOf(entry) === target
+        }).length === 1
+        const envSuffix = `_${name.toUpperCase().replace(/-/g, '_')}`
+        const posts = resolveString(account.posts)
+        const postsDir = posts == null
+            ? params.defaults.postsDir
+            : resolve(params.configDir, posts)
+
+        if (target === 'mastodon') {
+            const instanceUrl = resolveString(account.instanceUrl)
+            if (instanceUrl == null || !URL.canParse(instanceUrl)) {
+                throw new Error(
+                    `Account "${name}" needs an instanceUrl, like ` +
+                    '"https://mastodon.social".'
+                )
+            }
+
+            accounts.push({
+                name,
+                target,
+                default: isDefault,
+                handle: resolveString(account.handle) ??
+                    new URL(instanceUrl).host,
+                pdsUrl: trimTrailingSlash(instanceUrl),
+                passwordEnvVar: resolveString(account.tokenEnvVar) ?? (
+                    isDefault
+                        ? DEFAULT_MASTODON_TOKEN_ENV_VAR
+                        : DEFAULT_MASTODON_TOKEN_ENV_VAR + envSuffix
+                ),
+                postsDir
+            })
+            continue
+        }
+
+        const handle = resolveString(account.handle)
+        if (handle == null) {
+            throw new Error(`Account "${name}" is missing a handle.`)
+        }
+
+        accounts.push({
+            name,
+            target: 'bluesky',
+            default: isDefault,
+            handle,
+            pdsUrl: resolveString(account.pdsUrl) ?? params.defaults.pdsUrl,
+            passwordEnvVar: resolveString(account.passwordEnvVar) ?? (
+                isDefault
+                    ? params.defaults.passwordEnvVar
+                    : DEFAULT_PASSWORD_ENV_VAR + envSuffix
+            ),
+            postsDir
+        })
+    }
+
+    for (const target of TARGET_NAMES) {
+        const ofTarget = accounts.filter(account => account.target === target)
+        if (ofTarget.filter(account => account.default).length > 1 || (
+            ofTarget.length > 0 && !ofTarget.some(account => account.default)
+        )) {
+            throw new Error(
+                `Set "default: true" on exactly one ${target} account ` +
+                `(${ofTarget.map(account => account.name).join(', ')}). ` +
+                'It keeps the plain publish fields.'
+            )
+        }
+    }
+
+    return accounts
+}
+
+/**
+ * The config to publish as one account. The default account of each
+ * target keeps that target's plain publish markers, `AT_*` for Bluesky and
+ * `MASTODON_*` for Mastodon; any other account adds `_<name>` to each
+ * marker field, so a post can carry the markers of several accounts.
+ * Accounts other than the default Bluesky one keep their state in
+ * `accounts/<name>` under the state dir.
+ */
+export function resolveAccountConfig (
+    config:ResolvedConfig,
+    account:ResolvedAccount
+):ResolvedConfig {
+    const suffix = account.default ? '' : `_${account.name}`
+    const markers = account.target === 'mastodon'
+        ? MASTODON_MARKERS
+        : config
+
+    return {
+        ...config,
+        target: account.target,
+        handle: account.handle,
+        pdsUrl: account.pdsUrl,
+        passwordEnvVar: account.passwordEnvVar,
+        postsDir: account.postsDir,
+        atUrlField: markers.atUrlField + suffix,
+        atUriField: markers.atUriField + suffix,
+        atCidField: markers.atCidField + suffix,
+        hashField: markers.hashField + suffix,
+        documentUriField: markers.documentUriField + suffix,
+        repliesField: markers.repliesField + suffix,
+        stateDir: account.default && account.target === 'bluesky'
+            ? config.stateDir
+            : resolve(config.stateDir, 'accounts', account.name)
+    }
+}
+
+function resolveMarkerField (
+    name:string,
+    value:unknown,
+    fallback:string
+):string {
+    const field = resolveString(value) ?? fallback
+    // Markers are written as top-level keys, so a dotted path would be
+    // written but never read back.
+    if (!/^[\w-]+$/.test(field)) {
+        throw new Error(
+            `Invalid ${name} "${field}". Use a top-level field name ` +
+            'of letters, digits, "-" and "_".'
+        )
+    }
+
+    return field
+}
+
+function resolveNonNegativeInteger (
+    name:string,
+    value:unknown,
+    fallback:number
+):number {
+    if (value == null) return fallback
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        throw new Error(
+            `Invalid ${name} "${String(value)}". Use a whole number of 0 or more.`
+        )
     }
+
+    return value
 }
 
 function extractConfigOverrides (options:PublishOptions):NoatConfig {
@@ -1229,6 +6859,29 @@ function extractConfigOverrides (options:PublishOptions):NoatConfig {
         config.postTextField = options.postTextField
     }
     if (options.baseUrl != null) config.baseUrl = options.baseUrl
+    if (options.shortenLinks != null) {
+        config.shortenLinks = options.shortenLinks
+    }
+    if (options.backlinkMode != null) {
+        config.backlinkMode = options.backlinkMode
+    }
+    if (options.imageOverflow != null) {
+        config.imageOverflow = options.imageOverflow
+    }
+    if (options.resizeImages != null) {
+        config.resizeImages = options.resizeImages
+    }
+    if (options.thread != null) config.thread = options.thread
+    if (options.threadAttach != null) {
+        config.threadAttach = options.threadAttach
+    }
+    if (options.backdate != null) config.backdate = options.backdate
+    if (options.longForm != null) config.longForm = options.longForm
+    if (options.linkToEntry != null) {
+        config.linkToEntry = options.linkToEntry
+    }
+    if (options.retries != null) config.retries = options.retries
+    if (options.timeoutMs != null) config.timeoutMs = options.timeoutMs
 
     return config
 }
@@ -1,29 +1,284 @@
+import { createHash, createPublicKey, generateKeyPairSync, verify } from 'node:crypto'
+import { execFileSync } from 'node:child_process'
+import {
+    existsSync,
+    mkdirSync,
+    mkdtempSync,
+    readFileSync,
+    rmSync,
+    writeFileSync
+} from 'node:fs'
+import { createServer } from 'node:http'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
 import { test } from '@substrate-system/tapzero'
 import {
     appendBacklink,
+    buildDocumentRecord,
+    buildExternalCard,
+    buildGateRecords,
+    buildLoopbackClientId,
+    buildRichText,
+    createDpopProof,
+    createRequestFetch,
+    createTid,
+    describePostLengthOverflow,
+    downscaleImage,
     findFirstMarkdownImage,
+    findMarkdownImages,
+    findMarkdownVideos,
     getNestedField,
+    getPdsEndpoint,
+    getPostHold,
+    getPublishTarget,
+    getRetryDelay,
+    globToRegExp,
+    login,
+    measurePostLength,
     normalizeConfig,
+    parseAspectRatio,
+    parseAtUri,
+    parseBlueskyPostUrl,
     parseDotEnv,
     parsePostFields,
+    parsePostGates,
+    parsePostLink,
+    parseRecordMetadata,
+    publish,
+    readImageDimensions,
+    readJwtExpiry,
+    resolveAccountConfig,
     resolveBacklinkUrl,
+    resolveCreatedAt,
+    resolveDidDocumentUrl,
     resolveGitRelativePath,
+    resolveIdentity,
+    resolvePostAccounts,
+    resume,
     stripFrontmatterField,
     splitFrontmatter,
+    splitPostText,
     toBlueskyPostUrl,
+    toMastodonText,
+    toShortLinkText,
+    unpublish,
+    update,
+    uploadVideo,
     upsertFrontmatterField
 } from '../src/index.js'
 import { parseCliArgs } from '../src/cli.js'
 
 const TEST_CONFIG = {
+    target: 'bluesky' as const,
     handle: 'abc.bsky.social',
     pdsUrl: 'https://bsky.social',
+    plcDirectoryUrl: 'https://plc.directory',
+    handleResolverUrl: 'https://public.api.bsky.app',
+    videoServiceUrl: 'https://video.bsky.app',
     postsDir: '/repo/posts',
     passwordEnvVar: 'NOAT_BLUESKY_APP_PASSWORD',
     postTextField: 'post',
-    baseUrl: 'https://blog.example.com/blog'
+    atUrlField: 'AT_URL',
+    atUriField: 'AT_URI',
+    atCidField: 'AT_CID',
+    hashField: 'AT_HASH',
+    documentUriField: 'AT_DOCUMENT_URI',
+    repliesField: 'AT_REPLIES',
+    stateDir: '/repo/.noat',
+    retries: 3,
+    retryDelayMs: 1000,
+    timeoutMs: 30000,
+    baseUrl: 'https://blog.example.com/blog',
+    shortenLinks: false,
+    backlinkMode: 'inline' as const,
+    imageOverflow: 'truncate' as const,
+    resizeImages: false,
+    thread: false,
+    threadAttach: 'first' as const,
+    backdate: false,
+    timezone: 'UTC',
+    langs: [],
+    labels: [],
+    tags: [],
+    allowReplies: null,
+    allowQuotes: true,
+    longForm: false,
+    linkToEntry: false,
+    accounts: [{
+        name: 'default',
+        target: 'bluesky' as const,
+        default: true,
+        handle: 'abc.bsky.social',
+        pdsUrl: 'https://bsky.social',
+        passwordEnvVar: 'NOAT_BLUESKY_APP_PASSWORD',
+        postsDir: '/repo/posts'
+    }]
+}
+
+const toTestJwt = (exp:number) => [
+    'e30',
+    Buffer.from(JSON.stringify({ exp })).toString('base64url'),
+    'sig'
+].join('.')
+const TEST_JWT = toTestJwt(4102444800)
+
+/**
+ * A stand-in PDS for the publish flows. `fail` makes the nth call of a
+ * method return an error, and `lose` makes it store the record but answer
+ * with a 502, like a response lost after the write. Methods are named
+ * without their `com.atproto.*` prefix.
+ */
+function createFakePds () {
+    const records = new Map<string, unknown>()
+    const calls:Array<{ method:string, body:any }> = []
+    const fail:Array<{ method:string, call:number }> = []
+    const lose:Array<{ method:string, call:number }> = []
+    let cids = 0
+    const count = (method:string) => calls.filter(call => {
+        return call.method.endsWith(`.${method}`)
+    }).length
+    const matches = (
+        list:Array<{ method:string, call:number }>,
+        method:string
+    ) => list.some(entry => {
+        return method.endsWith(`.${entry.method}`) &&
+            count(entry.method) === entry.call
+    })
+
+    const respond = (status:number, json:unknown) => new Response(
+        JSON.stringify(json),
+        { status, headers: { 'content-type': 'application/json' } }
+    )
+    const fetchImpl = async (url:string, init:Record<string, any> = {}) => {
+        const { pathname, searchParams } = new URL(url)
+        const method = pathname.replace('/xrpc/', '')
+        const body = typeof init.body === 'string' ? JSON.parse(init.body) : null
+        calls.push({ method, body })
+
+        if (matches(fail, method)) {
+            return respond(400, { error: 'InvalidRequest', message: 'failed' })
+        }
+        if (method === 'com.atproto.server.getSession') {
+            return respond(200, { did: 'did:plc:me', handle: 'me.test' })
+        }
+        if (
+            method === 'com.atproto.server.createSession' ||
+            method === 'com.atproto.server.refreshSession'
+        ) {
+            return respond(200, {
+                accessJwt: TEST_JWT,
+                refreshJwt: TEST_JWT,
+                did: 'did:plc:me',
+                handle: 'me.test'
+            })
+        }
+        if (method === 'com.atproto.repo.uploadBlob') {
+            return respond(200, {
+                blob: { $type: 'blob', ref: { $link: `blob${++cids}` } }
+            })
+        }
+        if (method === 'com.atproto.repo.getRecord') {
+            const key = `${searchParams.get('collection')}/` +
+                searchParams.get('rkey')
+            if (!records.has(key)) {
+                return respond(400, {
+                    error: 'RecordNotFound',
+                    message: 'Could not locate record'
+                })
+            }
+            return respond(200, {
+                uri: `at://did:plc:me/${key}`,
+                cid: 'cid0',
+                value: records.get(key)
+            })
+        }
+        if (method === 'com.atproto.repo.deleteRecord') {
+            records.delete(`${body.collection}/${body.rkey}`)
+            return respond(200, {})
+        }
+        if (
+            method === 'com.atproto.repo.createRecord' ||
+            method === 'com.atproto.repo.putRecord'
+        ) {
+            const key = `${body.collection}/${body.rkey}`
+            if (method === 'com.atproto.repo.createRecord' && records.has(key)) {
+                return respond(400, {
+                    error: 'InvalidRequest',
+                    message: 'Record already exists'
+                })
+            }
+            records.set(key, body.record)
+            if (matches(lose, method)) {
+                return respond(502, { error: 'BadGateway' })
+            }
+            return respond(200, {
+                uri: `at://did:plc:me/${key}`,
+                cid: `cid${++cids}`
+            })
+        }
+
+        return respond(404, { error: 'MethodNotImplemented', message: method })
+    }
+
+    return { records, calls, fail, lose, fetchImpl, count }
+}
+
+/**
+ * Run with `fetchImpl` as the global fetch, which the commands use.
+ */
+async function withFetch<T> (
+    fetchImpl:(url:string, init?:Record<string, any>)=>Promise<Response>,
+    run:()=>Promise<T>
+):Promise<T> {
+    const original = globalThis.fetch
+    globalThis.fetch = fetchImpl as typeof fetch
+    try {
+        return await run()
+    } finally {
+        globalThis.fetch = original
+    }
+}
+
+/**
+ * A git repo with a config for the fake PDS, and `files` committed.
+ */
+function createPostsRepo (
+    files:Record<string, string>,
+    config:Record<string, unknown> = {}
+):{ dir:string, git:(...args:string[])=>string } {
+    const dir = mkdtempSync(join(tmpdir(), 'noat-test-'))
+    const git = (...args:string[]) => execFileSync('git', args, {
+        cwd: dir,
+        encoding: 'utf8'
+    })
+    git('init', '-q')
+    git('config', 'user.email', 'test@example.com')
+    git('config', 'user.name', 'test')
+    writeFileSync(join(dir, 'noat.config.json'), JSON.stringify({
+        handle: 'me.test',
+        pdsUrl: 'http://pds.test',
+        baseUrl: 'https://blog.test',
+        retries: 0,
+        ...config
+    }))
+    writeFileSync(join(dir, '.gitignore'), '.env\n')
+    writeFileSync(join(dir, '.env'), 'NOAT_BLUESKY_APP_PASSWORD=pw\n')
+    mkdirSync(join(dir, 'posts'), { recursive: true })
+    for (const [path, content] of Object.entries(files)) {
+        writeFileSync(join(dir, path), content)
+    }
+    git('add', '-A')
+    git('commit', '-qm', 'init')
+
+    return { dir, git }
 }
 
+const QUIET_IO = { log: () => {}, error: () => {} }
+
+// Two paragraphs too long for one post, so `thread: true` makes two.
+const THREAD_POST = '---\npost: |\n  ' + 'First part. '.repeat(20) +
+    '\n\n  ' + 'Second part. '.repeat(20) + '\n---\n'
+
 test('parseDotEnv', t => {
     const env = parseDotEnv([
         '# comment',
@@ -95,6 +350,292 @@ test('parsePostFields uses configured frontmatter fields', t => {
     t.equal(fields.imageAlt, 'Screenshot', 'uses first body image alt text')
 })
 
+test('getPostHold skips drafts and holds scheduled posts', t => {
+    const now = Date.parse('2026-03-01T12:00:00Z')
+    const hold = (frontmatter:Record<string, unknown>) => getPostHold({
+        postPath: 'posts/a.md',
+        frontmatter,
+        now
+    })
+
+    t.equal(hold({ title: 'Ready' }), null, 'publishes plain posts')
+    t.deepEqual(hold({ draft: true }), {
+        reason: 'draft',
+        detail: 'draft is true'
+    }, 'skips drafts')
+    t.deepEqual(hold({ noat: false }), {
+        reason: 'draft',
+        detail: 'noat is false'
+    }, 'skips posts opted out of noat')
+    t.deepEqual(hold({ publishAt: '2026-03-02T09:00:00Z' }), {
+        reason: 'scheduled',
+        detail: 'scheduled for 2026-03-02T09:00:00.000Z'
+    }, 'holds posts scheduled in the future')
+    t.equal(hold({ publishAt: new Date('2026-02-01T00:00:00Z') }), null,
+        'publishes posts whose time has passed')
+    t.throws(() => hold({ publishAt: 'next tuesday' }),
+        /invalid publishAt "next tuesday"/, 'rejects invalid dates')
+
+    const { frontmatter } = splitFrontmatter(
+        '---\npublishAt: 2026-04-01T08:00:00Z\n---\nbody'
+    )
+    t.equal(hold(frontmatter)?.reason, 'scheduled',
+        'reads unquoted YAML timestamps')
+})
+
+test('resolveCreatedAt reads frontmatter and file name dates', t => {
+    const now = Date.parse('2026-10-01T00:00:00Z')
+    const created = (
+        date:unknown,
+        timezone = 'UTC',
+        postPath = 'posts/a.md'
+    ) => resolveCreatedAt({ postPath, date, timezone, now })
+
+    t.equal(created(undefined), null, 'no date, no backdating')
+    t.equal(created('2026-02-01'), '2026-02-01T00:00:00.000Z')
+    t.equal(
+        created('2026-02-01', 'Europe/Berlin'),
+        '2026-01-31T23:00:00.000Z',
+        'reads dates without an offset in the time zone'
+    )
+    t.equal(
+        created('2026-07-01 09:30', 'America/New_York'),
+        '2026-07-01T13:30:00.000Z',
+        'handles daylight saving time'
+    )
+    t.equal(
+        created('2026-02-01T09:00:00+01:00', 'America/New_York'),
+        '2026-02-01T08:00:00.000Z',
+        'an explicit offset wins over the time zone'
+    )
+    t.equal(
+        created(new Date('2026-02-01T09:00:00Z')),
+        '2026-02-01T09:00:00.000Z',
+        'accepts Date values'
+    )
+    t.equal(
+        created(undefined, 'UTC', 'posts/2026-02-01-launch.md'),
+        '2026-02-01T00:00:00.000Z',
+        'falls back to the file name prefix'
+    )
+    t.throws(() => created('2026-02-30'), /invalid date "2026-02-30"/,
+        'rejects impossible dates')
+    t.throws(() => created('last tuesday'), /invalid date/,
+        'rejects other formats')
+    t.throws(() => created('2027-01-01'), /date in the future/,
+        'rejects future dates')
+})
+
+test('parseRecordMetadata validates langs, labels and tags', t => {
+    t.deepEqual(
+        parseRecordMetadata({
+            langs: 'en, pt-br',
+            labels: ['graphic-media'],
+            tags: ['#art', 'art', 'ink drawing'],
+            where: 'config'
+        }),
+        {
+            langs: ['en', 'pt-BR'],
+            labels: ['graphic-media'],
+            tags: ['art', 'ink drawing']
+        },
+        'normalizes lists, language tags and leading #'
+    )
+    t.deepEqual(
+        parseRecordMetadata({ where: 'config' }),
+        { langs: [], labels: [], tags: [] },
+        'defaults to empty lists'
+    )
+    t.throws(
+        () => parseRecordMetadata({ langs: 'not a lang', where: 'config' }),
+        /Invalid lang "not a lang" in config/,
+        'rejects invalid language tags'
+    )
+    t.throws(
+        () => parseRecordMetadata({
+            langs: ['en', 'fr', 'de', 'ja'],
+            where: 'post "posts/a.md"'
+        }),
+        /Too many langs in post "posts\/a.md": 4/,
+        'allows three langs'
+    )
+    t.throws(
+        () => parseRecordMetadata({ labels: ['spoiler'], where: 'config' }),
+        /Invalid label "spoiler"/,
+        'only allows Bluesky self-labels'
+    )
+    t.throws(
+        () => parseRecordMetadata({
+            tags: ['1', '2', '3', '4', '5', '6', '7', '8', '9'],
+            where: 'config'
+        }),
+        /Too many tags in config: 9/,
+        'allows eight tags'
+    )
+    t.throws(
+        () => parseRecordMetadata({ tags: ['x'.repeat(65)], where: 'config' }),
+        /Invalid tag/,
+        'limits tag length'
+    )
+    t.throws(
+        () => parseRecordMetadata({ tags: [1], where: 'config' }),
+        /Invalid tags in config/,
+        'rejects non-string values'
+    )
+})
+
+test('parsePostGates reads reply and quote controls', t => {
+    t.deepEqual(
+        parsePostGates({ where: 'config' }),
+        { allowReplies: null, allowQuotes: true },
+        'allows everything by default'
+    )
+    t.deepEqual(
+        parsePostGates({
+            allowReplies: false,
+            allowQuotes: false,
+            where: 'config'
+        }),
+        { allowReplies: [], allowQuotes: false },
+        'false allows nobody'
+    )
+    const list = 'at://did:plc:123/app.bsky.graph.list/3laz2abc'
+    t.deepEqual(
+        parsePostGates({
+            allowReplies: ['followers', 'mentioned', list],
+            where: 'config'
+        }).allowReplies,
+        ['followers', 'mentioned', list],
+        'reads rules and list URIs'
+    )
+    t.throws(
+        () => parsePostGates({ allowReplies: ['friends'], where: 'config' }),
+        /Invalid allowReplies rule "friends" in config/,
+        'rejects unknown rules'
+    )
+    t.throws(
+        () => parsePostGates({ allowReplies: ['toString'], where: 'config' }),
+        /Invalid allowReplies rule "toString" in config/,
+        'rejects object prototype keys'
+    )
+    t.throws(
+        () => parsePostGates({
+            allowReplies: ['at://did:plc:123/app.bsky.feed.post/3laz2abc'],
+            where: 'config'
+        }),
+        /Invalid allowReplies rule/,
+        'only takes list URIs'
+    )
+    t.throws(
+        () => parsePostGates({ allowQuotes: 'no', where: 'config' }),
+        /Invalid allowQuotes in config/,
+        'allowQuotes must be a boolean'
+    )
+})
+
+test('buildGateRecords', t => {
+    const postUri = 'at://did:plc:123/app.bsky.feed.post/3laz2abc'
+    const createdAt = '2026-03-01T09:00:00.000Z'
+
+    t.deepEqual(
+        buildGateRecords({
+            postUri,
+            gates: { allowReplies: null, allowQuotes: true },
+            createdAt
+        }),
+        [],
+        'no gates when everything is allowed'
+    )
+    t.deepEqual(
+        buildGateRecords({
+            postUri,
+            gates: { allowReplies: ['mentioned'], allowQuotes: false },
+            createdAt
+        }),
+        [
+            {
+                collection: 'app.bsky.feed.threadgate',
+                record: {
+                    $type: 'app.bsky.feed.threadgate',
+                    post: postUri,
+                    allow: [
+                        { $type: 'app.bsky.feed.threadgate#mentionRule' }
+                    ],
+                    createdAt
+                }
+            },
+            {
+                collection: 'app.bsky.feed.postgate',
+                record: {
+                    $type: 'app.bsky.feed.postgate',
+                    post: postUri,
+                    embeddingRules: [
+                        { $type: 'app.bsky.feed.postgate#disableRule' }
+                    ],
+                    createdAt
+                }
+            }
+        ],
+        'builds a threadgate and a postgate'
+    )
+})
+
+test('buildDocumentRecord rewrites local images to blobs', t => {
+    const blob = {
+        $type: 'blob',
+        ref: { $link: 'bafkreiimage' },
+        mimeType: 'image/png',
+        size: 100
+    }
+    const record = buildDocumentRecord({
+        title: 'Hello',
+        content: [
+            '# Hello',
+            '',
+            '![A cat](./images/cat.png "Cat")',
+            '![Remote](https://example.com/dog.png)',
+            '![Again](./images/cat.png)'
+        ].join('\n'),
+        blobs: [{ path: './images/cat.png', blob }],
+        did: 'did:plc:abc',
+        pdsUrl: 'https://pds.example.com/',
+        createdAt: '2026-01-02T03:04:05.000Z'
+    })
+    const url = 'https://pds.example.com/xrpc/com.atproto.sync.getBlob' +
+        '?did=did%3Aplc%3Aabc&cid=bafkreiimage'
+
+    t.deepEqual(record, {
+        $type: 'com.whtwnd.blog.entry',
+        content: [
+            '# Hello',
+            '',
+            `![A cat](${url} "Cat")`,
+            '![Remote](https://example.com/dog.png)',
+            `![Again](${url})`
+        ].join('\n'),
+        title: 'Hello',
+        createdAt: '2026-01-02T03:04:05.000Z',
+        visibility: 'public',
+        blobs: [{
+            $type: 'com.whtwnd.blog.defs#blobMetadata',
+            blobref: blob,
+            name: 'cat.png'
+        }]
+    }, 'points local images at their blobs and lists the blobs')
+
+    t.throws(
+        () => buildDocumentRecord({
+            content: '![x](./x.png)',
+            blobs: [{ path: './x.png', blob: {} }],
+            did: 'did:plc:abc',
+            pdsUrl: 'https://pds.example.com',
+            createdAt: '2026-01-02T03:04:05.000Z'
+        }),
+        /has no CID/,
+        'rejects blobs without a CID'
+    )
+})
+
 test('parsePostFields falls back to markdown content', t => {
     const markdown = [
         '---',
@@ -115,6 +656,49 @@ test('parsePostFields falls back to markdown content', t => {
         'extracts image from markdown body')
 })
 
+test('parsePostFields allows long text in thread mode', t => {
+    const markdown = `---\npost: "${'a '.repeat(200).trim()}"\n---\n`
+
+    t.throws(
+        () => parsePostFields(markdown, { postTextField: 'post' }),
+        /300 graphemes and 3000 bytes or fewer/,
+        'rejects long text by default'
+    )
+    t.equal(
+        parsePostFields(markdown, { postTextField: 'post', thread: true })
+            .text.length,
+        399,
+        'accepts long text when posts are split into threads'
+    )
+})
+
+test('measurePostLength counts graphemes and UTF-8 bytes', t => {
+    const family = '👨‍👩‍👧‍👦'
+    const flag = '🇺🇦'
+
+    t.deepEqual(measurePostLength(`${family}${flag} é`), {
+        graphemes: 4,
+        bytes: 25 + 8 + 1 + 2
+    }, 'counts ZWJ sequences and flags as one grapheme each')
+})
+
+test('describePostLengthOverflow', t => {
+    t.equal(describePostLengthOverflow('🇺🇦'.repeat(300)), null,
+        '300 flags fit, though they are 600 code points')
+
+    const long = describePostLengthOverflow(`${'a'.repeat(290)}0123456789!`)
+    t.ok(long?.startsWith('301 graphemes and 301 bytes.'),
+        'reports grapheme and byte counts')
+    t.ok(long?.includes('crossed at grapheme 301, after "aaaaaaaaaa0123456789"'),
+        'shows where the text crosses the grapheme limit')
+
+    const heavy = describePostLengthOverflow('👨‍👩‍👧‍👦'.repeat(150))
+    t.ok(heavy?.startsWith('150 graphemes and 3750 bytes.'),
+        'reports text that is only over the byte limit')
+    t.ok(heavy?.includes('crossed at grapheme 121'),
+        'shows where the text crosses the byte limit')
+})
+
 test('findFirstMarkdownImage returns first image only', t => {
     const markdown = [
         'Intro',
@@ -128,6 +712,257 @@ test('findFirstMarkdownImage returns first image only', t => {
     t.equal(image?.path, './images/first.png', 'returns first image path')
 })
 
+test('findMarkdownImages returns every image in order', t => {
+    const markdown = [
+        '![First](./images/first.png)',
+        'Text ![Second](<./images/second image.png>)',
+        '![](./images/third.png "title")'
+    ].join('\n')
+
+    t.deepEqual(findMarkdownImages(markdown), [
+        { alt: 'First', path: './images/first.png' },
+        { alt: 'Second', path: './images/second image.png' },
+        { alt: '', path: './images/third.png' }
+    ], 'returns alt text and paths in document order')
+})
+
+test('findMarkdownVideos finds video links and tags', t => {
+    const markdown = [
+        '![Launch clip](./clips/launch.mp4)',
+        'Watch [the demo](./clips/demo.webm) or ' +
+            '[online](https://cdn.test/demo.mp4) or ' +
+            '[the mirror](//mirror.test/demo.mp4).',
+        '<video src="./clips/tour.mov" aria-label="A tour" controls>',
+        '  <track kind="captions" src="./clips/tour.en.vtt" srclang="en">',
+        '  <track kind="chapters" src="./clips/tour.chapters.vtt">',
+        '</video>',
+        '<video title="Sourced"><source src="./clips/b.mp4"></video>',
+        '<video src="https://cdn.test/remote.mp4"></video>',
+        '![Remote](https://cdn.test/remote.webm)',
+        '![Photo](./images/photo.png)'
+    ].join('\n')
+
+    t.deepEqual(findMarkdownVideos(markdown), [
+        { alt: 'Launch clip', path: './clips/launch.mp4', captions: [] },
+        { alt: 'the demo', path: './clips/demo.webm', captions: [] },
+        {
+            alt: 'A tour',
+            path: './clips/tour.mov',
+            captions: [{ lang: 'en', path: './clips/tour.en.vtt' }]
+        },
+        { alt: 'Sourced', path: './clips/b.mp4', captions: [] }
+    ], 'returns local videos in document order')
+    t.deepEqual(findMarkdownImages(markdown), [
+        { alt: 'Photo', path: './images/photo.png' }
+    ], 'videos are not images')
+
+    const parsed = parsePostFields(
+        ['---', 'title: Clip', '---', 'Watch [the demo](./demo.mp4).']
+            .join('\n'),
+        { postTextField: 'post' }
+    )
+    t.equal(parsed.text, 'Watch the demo.', 'keeps the link text of a video')
+    t.equal(
+        parsePostFields('Watch [the demo](//cdn.test/demo.mp4).', {
+            postTextField: 'post'
+        }).text,
+        'Watch [the demo](//cdn.test/demo.mp4).',
+        'keeps links to remote videos'
+    )
+})
+
+test('uploadVideo uploads a video and waits for its job', async t => {
+    const requests:Array<{ url:string, init?:Record<string, any> }> = []
+    const respond = (status:number, body:unknown) => ({
+        ok: status < 400,
+        status,
+        text: async () => JSON.stringify(body)
+    })
+    const blob = { $type: 'blob', ref: { $link: 'bafyvideo' } }
+    let polls = 0
+    const fetchImpl = async (url:string, init?:Record<string, any>) => {
+        requests.push({ url, init })
+        if (url.includes('com.atproto.server.getServiceAuth')) {
+            return respond(200, { token: 'service-token' })
+        }
+        if (url.includes('app.bsky.video.uploadVideo')) {
+            return respond(200, { jobId: 'job1', state: 'JOB_STATE_CREATED' })
+        }
+        if (url.includes('app.bsky.video.getJobStatus?jobId=job1')) {
+            polls += 1
+            return respond(200, {
+                jobStatus: polls < 2
+                    ? { jobId: 'job1', state: 'JOB_STATE_ENCODING' }
+                    : { jobId: 'job1', state: 'JOB_STATE_COMPLETED', blob }
+            })
+        }
+        return respond(404, { error: 'NotFound' })
+    }
+    const params = {
+        fetchImpl,
+        pdsUrl: 'http://127.0.0.1:2583',
+        session: {
+            did: 'did:plc:me',
+            accessJwt: 'access',
+            tokenType: 'Bearer' as const
+        },
+        videoServiceUrl: 'http://video.test/',
+        bytes: Buffer.from('video'),
+        mimeType: 'video/mp4',
+        name: 'clip.mp4',
+        pollIntervalMs: 0
+    }
+
+    t.deepEqual(await uploadVideo(params), blob, 'returns the processed blob')
+    const auth = new URL(requests[0].url)
+    t.equal(auth.searchParams.get('aud'), 'did:web:127.0.0.1%3A2583',
+        'asks for a token for the PDS')
+    t.equal(auth.searchParams.get('lxm'), 'com.atproto.repo.uploadBlob')
+    t.equal(
+        requests[1].url,
+        'http://video.test/xrpc/app.bsky.video.uploadVideo' +
+            '?did=did%3Aplc%3Ame&name=clip.mp4',
+        'uploads to the video service'
+    )
+    t.equal(requests[1].init?.headers.authorization, 'Bearer service-token',
+        'uses the service auth token')
+    t.equal(polls, 2, 'polls until the job completes')
+
+    polls = 0
+    const failing = async (url:string, init?:Record<string, any>) => (
+        url.includes('getJobStatus')
+            ? respond(200, {
+                jobStatus: {
+                    jobId: 'job1',
+                    state: 'JOB_STATE_FAILED',
+                    error: 'Video too long'
+                }
+            })
+            : fetchImpl(url, init)
+    )
+    try {
+        await uploadVideo({ ...params, fetchImpl: failing })
+        t.fail('should throw')
+    } catch (error) {
+        t.ok(/could not be processed: Video too long/
+            .test((error as Error).message), 'reports a failed job')
+    }
+
+    // Read from a real Response, whose body can only be read once.
+    polls = 0
+    let conflict:unknown = { error: 'already_exists', jobId: 'job1' }
+    const uploaded = async (url:string, init?:Record<string, any>) => (
+        url.includes('app.bsky.video.uploadVideo')
+            ? new Response(JSON.stringify(conflict), { status: 409 })
+            : fetchImpl(url, init)
+    )
+    t.deepEqual(await uploadVideo({ ...params, fetchImpl: uploaded }), blob,
+        'picks up the job of a video uploaded before')
+    conflict = { error: 'Conflict', message: 'Busy' }
+    await t.throws(
+        () => uploadVideo({ ...params, fetchImpl: uploaded }),
+        /Busy/,
+        'reports any other conflict'
+    )
+})
+
+test('readImageDimensions reads PNG, GIF and JPEG headers', t => {
+    const png = Buffer.alloc(24)
+    Buffer.from('89504e470d0a1a0a0000000d', 'hex').copy(png)
+    png.write('IHDR', 12, 'latin1')
+    png.writeUInt32BE(1200, 16)
+    png.writeUInt32BE(800, 20)
+    t.deepEqual(readImageDimensions(png, 'image/png'),
+        { width: 1200, height: 800 }, 'reads PNG IHDR')
+
+    const gif = Buffer.alloc(10)
+    gif.write('GIF89a', 0, 'latin1')
+    gif.writeUInt16LE(320, 6)
+    gif.writeUInt16LE(240, 8)
+    t.deepEqual(readImageDimensions(gif, 'image/gif'),
+        { width: 320, height: 240 }, 'reads GIF screen size')
+
+    const exif = Buffer.from(
+        'ffe10022' + Buffer.from('Exif\0\0', 'latin1').toString('hex') +
+        '4d4d002a00000008' + '0001' + '011200030000000100060000' + '00000000',
+        'hex'
+    )
+    const sof = Buffer.from('ffc0001108' + '0258' + '0320' + '03', 'hex')
+    const jpeg = Buffer.concat([Buffer.from('ffd8', 'hex'), exif, sof])
+    t.deepEqual(readImageDimensions(jpeg, 'image/jpeg'),
+        { width: 600, height: 800 }, 'swaps JPEG size for rotated EXIF')
+
+    t.equal(readImageDimensions(Buffer.from('nope'), 'image/png'), null,
+        'returns null for unreadable data')
+})
+
+test('readImageDimensions reads WebP and AVIF headers', t => {
+    const webp = Buffer.alloc(30)
+    webp.write('RIFF', 0, 'latin1')
+    webp.write('WEBPVP8X', 8, 'latin1')
+    webp.writeUIntLE(1919, 24, 3)
+    webp.writeUIntLE(1079, 27, 3)
+    t.deepEqual(readImageDimensions(webp, 'image/webp'),
+        { width: 1920, height: 1080 }, 'reads extended WebP canvas size')
+
+    const lossless = Buffer.alloc(25)
+    lossless.write('RIFF', 0, 'latin1')
+    lossless.write('WEBPVP8L', 8, 'latin1')
+    lossless.writeUInt32LE(99 | (49 << 14), 21)
+    t.deepEqual(readImageDimensions(lossless, 'image/webp'),
+        { width: 100, height: 50 }, 'reads lossless WebP size')
+
+    const ispe = (width:number, height:number) => {
+        const box = Buffer.alloc(20)
+        box.writeUInt32BE(20, 0)
+        box.write('ispe', 4, 'latin1')
+        box.writeUInt32BE(width, 12)
+        box.writeUInt32BE(height, 16)
+        return box
+    }
+    const avif = Buffer.concat([
+        Buffer.from('00000010667479706176696600000000', 'hex'),
+        ispe(160, 90),
+        ispe(1600, 900)
+    ])
+    t.deepEqual(readImageDimensions(avif, 'image/avif'),
+        { width: 1600, height: 900 }, 'uses the largest AVIF ispe box')
+})
+
+test('downscaleImage shrinks images below the size limit', async t => {
+    const { default: sharp } = await import('sharp')
+    const noise = Buffer.alloc(800 * 600 * 3)
+    for (let index = 0; index < noise.length; index += 1) {
+        noise[index] = (index * 7919) % 251
+    }
+    const png = await sharp(noise, {
+        raw: { width: 800, height: 600, channels: 3 }
+    }).png().toBuffer()
+
+    const resized = await downscaleImage({ bytes: png, maxBytes: 100000 })
+    t.ok(resized.bytes.length <= 100000, 'output fits the limit')
+    t.equal(resized.mimeType, 'image/jpeg', 'opaque images become JPEG')
+
+    const dimensions = readImageDimensions(resized.bytes, resized.mimeType)
+    t.ok(dimensions != null, 'output is a readable image')
+    t.equal(
+        Math.round((dimensions?.width ?? 0) / (dimensions?.height ?? 1) * 3),
+        4,
+        'keeps the aspect ratio'
+    )
+})
+
+test('parseAspectRatio', t => {
+    t.deepEqual(parseAspectRatio('16:9'), { width: 16, height: 9 },
+        'parses "w:h" strings')
+    t.deepEqual(parseAspectRatio('1200x800'), { width: 1200, height: 800 },
+        'parses "wxh" strings')
+    t.deepEqual(parseAspectRatio({ width: 4, height: 3 }),
+        { width: 4, height: 3 }, 'accepts objects')
+    t.throws(() => parseAspectRatio('wide'), /Invalid aspectRatio/,
+        'rejects invalid values')
+})
+
 test('resolveBacklinkUrl derives url from baseUrl + slug', t => {
     const url = resolveBacklinkUrl({
         postPath: 'posts/2026-02-01-launch.md',
@@ -180,99 +1015,574 @@ test('appendBacklink adds link once', t => {
     )
 })
 
-test('toBlueskyPostUrl converts AT URI to app URL', t => {
-    const appUrl = toBlueskyPostUrl(
-        'abc.bsky.social',
-        'at://did:plc:123/app.bsky.feed.post/3laz2abc'
+test('buildRichText adds link facets with UTF-8 byte offsets', t => {
+    const rich = buildRichText(
+        'Café 🚀 update\n\nhttps://blog.example.com/ship.'
     )
 
     t.equal(
-        appUrl,
-        'https://bsky.app/profile/abc.bsky.social/post/3laz2abc'
+        rich.text,
+        'Café 🚀 update\n\nhttps://blog.example.com/ship.',
+        'keeps bare URLs in the text'
+    )
+    t.equal(rich.facets.length, 1, 'creates one facet')
+    t.deepEqual(rich.facets[0].index, {
+        byteStart: 19,
+        byteEnd: 48
+    }, 'uses byte offsets, not string indexes')
+    t.equal(
+        rich.facets[0].features[0].uri,
+        'https://blog.example.com/ship',
+        'trims trailing punctuation from the link'
     )
 })
 
-test('upsertFrontmatterField adds AT_URL to existing frontmatter', t => {
-    const source = [
-        '---',
-        'title: Launch',
-        'post: Hello',
-        '---',
-        'Body'
-    ].join('\n')
-    const next = upsertFrontmatterField(
-        source,
-        'AT_URL',
-        'https://bsky.app/profile/abc.bsky.social/post/3laz2abc'
+test('buildRichText renders markdown links and shortens bare links', t => {
+    const rich = buildRichText(
+        'Read [the notes](https://example.com/notes) or ' +
+        'https://blog.example.com/blog/2026-02-01-launch',
+        { shortenLinks: true }
     )
 
-    t.ok(
-        next.includes(
-            'AT_URL: ' +
-            '"https://bsky.app/profile/abc.bsky.social/post/3laz2abc"'
-        )
+    t.equal(
+        rich.text,
+        'Read the notes or blog.example.com/blog/2026-02...',
+        'renders labels and shortened link text'
     )
-    t.ok(next.includes('title: Launch'))
-})
+    t.deepEqual(rich.facets.map(facet => facet.features[0].uri), [
+        'https://example.com/notes',
+        'https://blog.example.com/blog/2026-02-01-launch'
+    ], 'facets point at the full URLs')
 
-test('upsertFrontmatterField replaces AT_URL when present', t => {
-    const source = [
-        '---',
-        'title: Launch',
-        'AT_URL: "https://bsky.app/profile/abc.bsky.social/post/old123"',
-        '---',
-        'Body'
-    ].join('\n')
-    const next = upsertFrontmatterField(
-        source,
-        'AT_URL',
-        'https://bsky.app/profile/abc.bsky.social/post/new456'
+    const bytes = Buffer.from(rich.text, 'utf8')
+    const second = rich.facets[1].index
+    t.equal(
+        bytes.subarray(second.byteStart, second.byteEnd).toString('utf8'),
+        'blog.example.com/blog/2026-02...',
+        'facet covers the displayed link text'
     )
+})
 
-    t.ok(!next.includes('/post/old123'))
-    t.ok(next.includes('/post/new456'))
+test('splitPostText breaks on paragraphs, then sentences', t => {
+    const paragraph = 'Sentence one is here. ' + 'word '.repeat(40).trim() + '.'
+    const text = [paragraph, paragraph, 'Short closing line.'].join('\n\n')
+
+    const segments = splitPostText(text, { limit: 250 })
+    t.deepEqual(segments, [
+        paragraph,
+        `${paragraph}\n\nShort closing line.`
+    ], 'keeps whole paragraphs together when they fit')
+
+    const sentences = splitPostText(paragraph, { limit: 40 })
+    t.equal(sentences[0], 'Sentence one is here.',
+        'splits a long paragraph on sentence boundaries')
+    t.ok(sentences.every(segment => segment.length <= 40),
+        'every segment fits the limit')
+    t.equal(sentences.join(' '), paragraph, 'keeps all of the text')
 })
 
-test('upsertFrontmatterField creates frontmatter when missing', t => {
-    const source = '# Heading\n\nBody'
-    const next = upsertFrontmatterField(
-        source,
-        'AT_URL',
-        'https://bsky.app/profile/abc.bsky.social/post/3laz2abc'
-    )
+test('splitPostText honors firstLimit and keeps markdown links whole', t => {
+    const text = 'See [the release notes](https://example.com/notes) ' +
+        'for details about everything that changed'
+    const segments = splitPostText(text, { limit: 30, firstLimit: 10 })
 
-    t.ok(
-        next.startsWith(
-            '---\nAT_URL: ' +
-            '"https://bsky.app/profile/abc.bsky.social/post/3laz2abc"\n---\n'
-        )
+    t.equal(segments[0], 'See', 'first segment uses the smaller limit')
+    t.equal(
+        segments[1],
+        '[the release notes](https://example.com/notes) for details',
+        'markdown links are measured by label and never split'
     )
-    t.ok(next.includes('# Heading'))
 })
 
-test('stripFrontmatterField removes managed AT_URL metadata', t => {
-    const source = [
-        '---',
-        'title: Launch',
-        'AT_URL: "https://bsky.app/profile/abc.bsky.social/post/3laz2abc"',
-        'post: Hello',
-        '---',
-        'Body'
-    ].join('\n')
-    const next = stripFrontmatterField(source, 'AT_URL')
+test('toShortLinkText', t => {
+    t.equal(toShortLinkText('https://www.example.com/'), 'example.com',
+        'drops scheme, www and a bare slash')
+    t.equal(toShortLinkText('https://example.com/short'),
+        'example.com/short', 'keeps short paths')
+    t.equal(toShortLinkText('not a url'), 'not a url',
+        'returns invalid URLs unchanged')
+})
 
-    t.ok(!next.includes('AT_URL:'))
-    t.ok(next.includes('title: Launch'))
-    t.ok(next.includes('post: Hello'))
+test('buildExternalCard uses frontmatter title and description', t => {
+    const card = buildExternalCard({
+        frontmatter: {
+            title: 'Launch post',
+            description: 'How the pipeline works',
+            bluesky: { title: 'We launched' }
+        },
+        backlinkUrl: 'https://blog.example.com/blog/launch'
+    })
+
+    t.deepEqual(card, {
+        uri: 'https://blog.example.com/blog/launch',
+        title: 'We launched',
+        description: 'How the pipeline works'
+    }, 'prefers bluesky.* fields and falls back to top-level ones')
+
+    const bare = buildExternalCard({
+        frontmatter: {},
+        backlinkUrl: 'https://blog.example.com/blog/launch'
+    })
+    t.equal(bare.title, 'https://blog.example.com/blog/launch',
+        'falls back to the URL as title')
+    t.equal(bare.description, '', 'uses an empty description')
 })
 
-test('resolveGitRelativePath', t => {
-    const goodPath = resolveGitRelativePath(
-        'example/posts/alpha.md',
-        './images/pic.png'
+test('createTid makes sortable record keys', t => {
+    const first = createTid(Date.parse('2026-01-01T00:00:00Z'))
+    const second = createTid(Date.parse('2026-01-01T00:00:00Z'))
+    const later = createTid(Date.parse('2026-06-01T00:00:00Z'))
+
+    t.ok(/^[2-7a-j][2-7a-z]{12}$/.test(first), 'uses the TID format')
+    t.notEqual(first, second, 'never repeats within a run')
+    t.ok(first < second && second < later, 'sorts by creation time')
+})
+
+test('toBlueskyPostUrl converts AT URI to app URL', t => {
+    const appUrl = toBlueskyPostUrl(
+        'abc.bsky.social',
+        'at://did:plc:123/app.bsky.feed.post/3laz2abc'
     )
+
     t.equal(
-        goodPath,
+        appUrl,
+        'https://bsky.app/profile/abc.bsky.social/post/3laz2abc'
+    )
+})
+
+test('parseAtUri splits repo, collection and record key', t => {
+    t.deepEqual(
+        parseAtUri('at://did:plc:123/app.bsky.feed.post/3laz2abc'),
+        {
+            repo: 'did:plc:123',
+            collection: 'app.bsky.feed.post',
+            rkey: '3laz2abc'
+        }
+    )
+    t.throws(() => parseAtUri('https://bsky.app/profile/abc'),
+        /Could not parse AT URI/, 'rejects non-AT URIs')
+})
+
+test('parseBlueskyPostUrl reads actor and record key', t => {
+    t.deepEqual(
+        parseBlueskyPostUrl(
+            'https://bsky.app/profile/abc.bsky.social/post/3laz2abc'
+        ),
+        { actor: 'abc.bsky.social', rkey: '3laz2abc' }
+    )
+    t.throws(
+        () => parseBlueskyPostUrl('https://example.com/post/1'),
+        /Could not parse Bluesky post URL/,
+        'rejects other URLs'
+    )
+})
+
+test('parsePostLink reads replyTo and quote targets', t => {
+    const link = (
+        frontmatter:Record<string, unknown>,
+        field:'replyTo'|'quote'
+    ) => parsePostLink({
+        repoRoot: '/repo',
+        config: TEST_CONFIG,
+        postPath: 'posts/a.md',
+        frontmatter,
+        field
+    })
+
+    t.equal(link({}, 'replyTo'), null, 'no field, no link')
+    t.deepEqual(
+        link({
+            replyTo: 'https://bsky.app/profile/abc.bsky.social/post/3laz2abc'
+        }, 'replyTo'),
+        {
+            repo: 'abc.bsky.social',
+            rkey: '3laz2abc',
+            source: 'https://bsky.app/profile/abc.bsky.social/post/3laz2abc'
+        }
+    )
+    t.deepEqual(
+        link({ quote: 'at://did:plc:123/app.bsky.feed.post/3laz2abc' }, 'quote'),
+        {
+            repo: 'did:plc:123',
+            rkey: '3laz2abc',
+            source: 'at://did:plc:123/app.bsky.feed.post/3laz2abc'
+        }
+    )
+    t.equal(
+        link({
+            quote: 'at://did:plc:123/app.bsky.feed.post/3laz2abc',
+            bluesky: { quote: 'at://did:plc:123/app.bsky.feed.post/3laz2xyz' }
+        }, 'quote')?.rkey,
+        '3laz2xyz',
+        'prefers the field under bluesky'
+    )
+    t.throws(
+        () => link({
+            quote: 'at://did:plc:123/app.bsky.feed.like/3laz2abc'
+        }, 'quote'),
+        /not a Bluesky post/,
+        'rejects records that are not posts'
+    )
+    t.throws(
+        () => link({ replyTo: 'https://example.com/post/1' }, 'replyTo'),
+        /Could not parse Bluesky post URL/,
+        'rejects other URLs'
+    )
+    t.throws(
+        () => link({ replyTo: 42 }, 'replyTo'),
+        /invalid replyTo/,
+        'rejects non-string values'
+    )
+})
+
+test('readJwtExpiry reads the exp claim', t => {
+    const encode = (value:unknown) => Buffer.from(JSON.stringify(value))
+        .toString('base64url')
+    const token = [
+        encode({ alg: 'ES256K' }),
+        encode({ sub: 'did:plc:abc', exp: 1760000000 }),
+        'signature'
+    ].join('.')
+
+    t.equal(readJwtExpiry(token), 1760000000 * 1000, 'returns milliseconds')
+    t.equal(
+        readJwtExpiry([encode({}), encode({ sub: 'x' }), 'sig'].join('.')),
+        null,
+        'returns null without exp'
+    )
+    t.equal(readJwtExpiry('not-a-jwt'), null, 'returns null for garbage')
+})
+
+test('resolveDidDocumentUrl handles did:plc and did:web', t => {
+    t.equal(
+        resolveDidDocumentUrl('did:plc:abc123', 'http://localhost:2582/'),
+        'http://localhost:2582/did:plc:abc123',
+        'looks up did:plc in the directory'
+    )
+    t.equal(
+        resolveDidDocumentUrl('did:web:example.com', 'https://plc.directory'),
+        'https://example.com/.well-known/did.json',
+        'fetches did:web from the host'
+    )
+    t.equal(
+        resolveDidDocumentUrl(
+            'did:web:localhost%3A8080:users:me',
+            'https://plc.directory'
+        ),
+        'https://localhost:8080/users/me/did.json',
+        'decodes ports and paths in did:web'
+    )
+    t.throws(() => resolveDidDocumentUrl('did:key:z6Mk', 'https://plc.directory'),
+        /Unsupported DID method/, 'rejects other DID methods')
+})
+
+test('getPdsEndpoint reads the atproto_pds service', t => {
+    t.equal(getPdsEndpoint({
+        service: [
+            { id: '#other', serviceEndpoint: 'https://other.example' },
+            {
+                id: 'did:plc:abc#atproto_pds',
+                type: 'AtprotoPersonalDataServer',
+                serviceEndpoint: 'https://pds.example.com/'
+            }
+        ]
+    }), 'https://pds.example.com', 'finds the PDS endpoint')
+    t.equal(getPdsEndpoint({ service: [] }), null, 'returns null when missing')
+})
+
+test('resolveIdentity follows a handle to its PDS', async t => {
+    const requests:string[] = []
+    const respond = (status:number, body:unknown) => ({
+        ok: status < 400,
+        status,
+        text: async () => typeof body === 'string'
+            ? body
+            : JSON.stringify(body)
+    })
+    const fetchImpl = async (url:string) => {
+        requests.push(url)
+        if (url.startsWith('https://me.test/')) throw new Error('offline')
+        if (url.includes('resolveHandle?handle=me.test')) {
+            return respond(200, { did: 'did:plc:me' })
+        }
+        if (url === 'http://directory.test/did:plc:me') {
+            return respond(200, {
+                id: 'did:plc:me',
+                service: [{
+                    id: '#atproto_pds',
+                    type: 'AtprotoPersonalDataServer',
+                    serviceEndpoint: 'http://pds.test'
+                }]
+            })
+        }
+        return respond(404, { error: 'NotFound' })
+    }
+
+    const identity = await resolveIdentity({
+        fetchImpl,
+        handle: 'Me.test',
+        plcDirectoryUrl: 'http://directory.test',
+        handleResolverUrl: 'http://resolver.test',
+        resolveTxt: async () => { throw new Error('ENOTFOUND') }
+    })
+    t.deepEqual(identity, { did: 'did:plc:me', pdsUrl: 'http://pds.test' },
+        'resolves the DID and PDS')
+    t.deepEqual(requests, [
+        'https://me.test/.well-known/atproto-did',
+        'http://resolver.test/xrpc/com.atproto.identity.resolveHandle' +
+            '?handle=me.test',
+        'http://directory.test/did:plc:me'
+    ], 'falls back from well-known to resolveHandle')
+
+    const fromDns = await resolveIdentity({
+        fetchImpl,
+        handle: 'me.test',
+        plcDirectoryUrl: 'http://directory.test',
+        handleResolverUrl: 'http://resolver.test',
+        resolveTxt: async () => [['did=did:plc:me']]
+    })
+    t.equal(fromDns.did, 'did:plc:me', 'uses the DNS TXT record first')
+})
+
+test('getRetryDelay backs off and honors rate limit headers', t => {
+    const headers = (values:Record<string, string>) => ({
+        get: (name:string) => values[name] ?? null
+    })
+
+    t.equal(getRetryDelay({ attempt: 1, retryDelayMs: 500 }), 500,
+        'waits the base delay first')
+    t.equal(getRetryDelay({ attempt: 3, retryDelayMs: 500 }), 2000,
+        'doubles the delay for each attempt')
+    t.equal(getRetryDelay({
+        attempt: 1,
+        retryDelayMs: 500,
+        headers: headers({ 'retry-after': '7' })
+    }), 7000, 'reads Retry-After seconds')
+    t.equal(getRetryDelay({
+        attempt: 1,
+        retryDelayMs: 500,
+        headers: headers({ 'retry-after': 'Thu, 01 Jan 2026 00:00:30 GMT' }),
+        now: Date.parse('2026-01-01T00:00:00Z')
+    }), 30000, 'reads Retry-After dates')
+    t.equal(getRetryDelay({
+        attempt: 2,
+        retryDelayMs: 500,
+        headers: headers({ 'ratelimit-reset': '1767225612' }),
+        now: 1767225600 * 1000
+    }), 12000, 'waits until ratelimit-reset')
+})
+
+test('createRequestFetch retries failures, but not unsafe writes', async t => {
+    const statuses:number[] = []
+    const sent:Array<Record<string, any>> = []
+    const fetchImpl = async (_url:string, init:Record<string, any> = {}) => {
+        sent.push(init)
+        const status = statuses.shift() ?? 200
+        return { ok: status < 400, status, headers: { get: () => null } }
+    }
+    const logs:string[] = []
+    const request = createRequestFetch(fetchImpl, {
+        retries: 2,
+        retryDelayMs: 0,
+        timeoutMs: 1000,
+        log: message => { logs.push(message) }
+    })
+    const url = 'http://pds.test/xrpc/com.atproto.repo.getRecord'
+
+    statuses.push(503, 502)
+    t.equal((await request(url)).status, 200, 'retries 5xx responses')
+    t.equal(sent.length, 3, 'until an attempt succeeds')
+    t.ok(logs[0].startsWith('retrying GET com.atproto.repo.getRecord'),
+        'logs each retry')
+
+    sent.length = 0
+    statuses.push(503, 503, 503)
+    t.equal((await request(url)).status, 503, 'returns the last failure')
+    t.equal(sent.length, 3, 'after the configured retries')
+
+    sent.length = 0
+    statuses.push(502)
+    const write = await request(url, { method: 'POST', retry: false })
+    t.equal(write.status, 502, 'does not retry an unsafe write')
+    t.equal(sent.length, 1, 'sends it once')
+    t.ok(!('retry' in sent[0]), 'keeps its own options out of the request')
+
+    sent.length = 0
+    statuses.push(429)
+    await request(url, { method: 'POST', retry: false })
+    t.equal(sent.length, 2, 'still retries a rate limited write')
+
+    let calls = 0
+    const failing = createRequestFetch(async () => {
+        calls += 1
+        throw new TypeError('fetch failed')
+    }, { retries: 1, retryDelayMs: 0, timeoutMs: 1000 })
+    await t.throws(
+        () => failing(url),
+        /Request GET com.atproto.repo.getRecord failed after 2 attempts/,
+        'gives up on network errors after the retries'
+    )
+    t.equal(calls, 2, 'retries network errors')
+})
+
+test('publish does not post twice after a lost response', async t => {
+    const pds = createFakePds()
+    const { dir } = createPostsRepo({
+        'posts/one.md': '---\npost: One\n---\n'
+    }, { retries: 1, retryDelayMs: 0 })
+    try {
+        pds.lose.push({ method: 'createRecord', call: 1 })
+
+        const summary = await withFetch(pds.fetchImpl, () => {
+            return publish({ cwd: dir }, QUIET_IO)
+        })
+        t.equal(summary.publishedPosts, 1, 'publishes the post')
+        t.equal(pds.count('createRecord'), 2, 'retries the create')
+        t.equal(pds.records.size, 1, 'keeps the one record')
+    } finally {
+        rmSync(dir, { recursive: true, force: true })
+    }
+})
+
+test('buildLoopbackClientId encodes the redirect and scope', t => {
+    const clientId = buildLoopbackClientId('http://127.0.0.1:5173/callback')
+    const url = new URL(clientId)
+    t.equal(url.origin, 'http://localhost', 'uses the localhost client')
+    t.equal(url.searchParams.get('redirect_uri'),
+        'http://127.0.0.1:5173/callback', 'includes the redirect URI')
+    t.equal(url.searchParams.get('scope'), 'atproto transition:generic',
+        'requests the atproto scope')
+})
+
+test('createDpopProof signs the request with the DPoP key', t => {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    const { kty, crv, x, y } = createPublicKey(privateKey)
+        .export({ format: 'jwk' })
+    const signer = {
+        key: privateKey,
+        publicJwk: { kty, crv, x, y },
+        nonces: new Map([['https://pds.example.com', 'nonce-1']])
+    }
+
+    const proof = createDpopProof({
+        signer,
+        method: 'post',
+        url: 'https://pds.example.com/xrpc/com.atproto.repo.createRecord?x=1',
+        accessToken: 'token-abc'
+    })
+    const [header, payload, signature] = proof.split('.')
+    const decode = (part:string) => JSON.parse(
+        Buffer.from(part, 'base64url').toString('utf8')
+    )
+
+    t.deepEqual(decode(header), {
+        typ: 'dpop+jwt',
+        alg: 'ES256',
+        jwk: { kty, crv, x, y }
+    }, 'embeds the public key in the header')
+
+    const claims = decode(payload)
+    t.equal(claims.htm, 'POST', 'includes the method')
+    t.equal(
+        claims.htu,
+        'https://pds.example.com/xrpc/com.atproto.repo.createRecord',
+        'includes the URL without the query'
+    )
+    t.equal(claims.nonce, 'nonce-1', 'includes the server nonce')
+    t.equal(
+        claims.ath,
+        createHash('sha256').update('token-abc').digest('base64url'),
+        'binds the access token'
+    )
+    t.ok(verify(
+        'sha256',
+        Buffer.from(`${header}.${payload}`),
+        { key: createPublicKey(privateKey), dsaEncoding: 'ieee-p1363' },
+        Buffer.from(signature, 'base64url')
+    ), 'has a valid ES256 signature')
+})
+
+test('upsertFrontmatterField adds AT_URL to existing frontmatter', t => {
+    const source = [
+        '---',
+        'title: Launch',
+        'post: Hello',
+        '---',
+        'Body'
+    ].join('\n')
+    const next = upsertFrontmatterField(
+        source,
+        'AT_URL',
+        'https://bsky.app/profile/abc.bsky.social/post/3laz2abc'
+    )
+
+    t.ok(
+        next.includes(
+            'AT_URL: ' +
+            '"https://bsky.app/profile/abc.bsky.social/post/3laz2abc"'
+        )
+    )
+    t.ok(next.includes('title: Launch'))
+})
+
+test('upsertFrontmatterField replaces AT_URL when present', t => {
+    const source = [
+        '---',
+        'title: Launch',
+        'AT_URL: "https://bsky.app/profile/abc.bsky.social/post/old123"',
+        '---',
+        'Body'
+    ].join('\n')
+    const next = upsertFrontmatterField(
+        source,
+        'AT_URL',
+        'https://bsky.app/profile/abc.bsky.social/post/new456'
+    )
+
+    t.ok(!next.includes('/post/old123'))
+    t.ok(next.includes('/post/new456'))
+})
+
+test('upsertFrontmatterField creates frontmatter when missing', t => {
+    const source = '# Heading\n\nBody'
+    const next = upsertFrontmatterField(
+        source,
+        'AT_URL',
+        'https://bsky.app/profile/abc.bsky.social/post/3laz2abc'
+    )
+
+    t.ok(
+        next.startsWith(
+            '---\nAT_URL: ' +
+            '"https://bsky.app/profile/abc.bsky.social/post/3laz2abc"\n---\n'
+        )
+    )
+    t.ok(next.includes('# Heading'))
+})
+
+test('stripFrontmatterField removes managed AT_URL metadata', t => {
+    const source = [
+        '---',
+        'title: Launch',
+        'AT_URL: "https://bsky.app/profile/abc.bsky.social/post/3laz2abc"',
+        'post: Hello',
+        '---',
+        'Body'
+    ].join('\n')
+    const next = stripFrontmatterField(source, 'AT_URL')
+
+    t.ok(!next.includes('AT_URL:'))
+    t.ok(next.includes('title: Launch'))
+    t.ok(next.includes('post: Hello'))
+})
+
+test('resolveGitRelativePath', t => {
+    const goodPath = resolveGitRelativePath(
+        'example/posts/alpha.md',
+        './images/pic.png'
+    )
+    t.equal(
+        goodPath,
         'example/posts/images/pic.png',
         'resolves relative asset path'
     )
@@ -331,7 +1641,12 @@ test('parseCliArgs + normalizeConfig defaults', t => {
     })
 
     t.equal(normalized.handle, 'nick.bsky.social', 'uses env fallback handle')
-    t.equal(normalized.pdsUrl, 'https://bsky.social', 'uses default PDS URL')
+    t.equal(normalized.pdsUrl, null, 'discovers the PDS by default')
+    t.equal(
+        normalized.plcDirectoryUrl,
+        'https://plc.directory',
+        'uses default PLC directory'
+    )
     t.equal(
         normalized.passwordEnvVar,
         'NOAT_BLUESKY_APP_PASSWORD',
@@ -347,6 +1662,137 @@ test('parseCliArgs + normalizeConfig defaults', t => {
         'https://blog.example.com',
         'uses baseUrl from env'
     )
+    t.equal(normalized.atUriField, 'AT_URI', 'uses default AT URI field')
+    t.equal(normalized.atCidField, 'AT_CID', 'uses default CID field')
+    t.equal(normalized.stateDir, '/repo/.noat',
+        'uses default state dir relative to config dir')
+    t.equal(normalized.retries, 3, 'retries failed requests 3 times')
+    t.equal(normalized.timeoutMs, 30000, 'uses default request timeout')
+    t.deepEqual(normalized.langs, [], 'sets no langs by default')
+    t.equal(normalized.backdate, false, 'does not backdate by default')
+    t.equal(normalized.timezone, 'UTC', 'reads dates as UTC by default')
+    t.throws(
+        () => normalizeConfig({
+            configDir: '/repo',
+            env: {},
+            config: {
+                handle: 'nick.bsky.social',
+                baseUrl: 'https://blog.example.com',
+                timezone: 'Mars/Olympus'
+            }
+        }),
+        /Invalid timezone "Mars\/Olympus"/,
+        'validates the time zone'
+    )
+})
+
+test('parseCliArgs parses the update command', t => {
+    const cli = parseCliArgs(['update', '--force', '--dry-run'])
+    t.equal(cli.command, 'update', 'parses update command')
+    t.ok(cli.options.force, 'parses force flag')
+    t.ok(cli.options.dryRun, 'parses dry-run flag')
+})
+
+test('parseCliArgs parses retry options', t => {
+    const cli = parseCliArgs(['--retries', '5', '--timeout-ms', '10000'])
+    t.equal(cli.options.retries, 5, 'parses retries')
+    t.equal(cli.options.timeoutMs, 10000, 'parses request timeout')
+})
+
+test('parseCliArgs parses --backdate and --long-form', t => {
+    const cli = parseCliArgs(['publish', '--backdate', '--long-form'])
+    t.equal(cli.options.backdate, true, 'parses backdate flag')
+    t.equal(cli.options.longForm, true, 'parses long-form flag')
+})
+
+test('normalizeConfig validates retries and marker fields', t => {
+    const env = {
+        NOAT_BLUESKY_HANDLE: 'nick.bsky.social',
+        NOAT_BASE_URL: 'https://blog.example.com'
+    }
+    t.throws(
+        () => normalizeConfig({ configDir: '/repo', env, config: { retries: -1 } }),
+        /Invalid retries "-1"/,
+        'rejects negative retries'
+    )
+    t.throws(
+        () => normalizeConfig({ configDir: '/repo', env, config: { timeoutMs: 0 } }),
+        /Invalid timeoutMs "0"/,
+        'rejects a zero timeout'
+    )
+    t.throws(
+        () => normalizeConfig({
+            configDir: '/repo',
+            env,
+            config: { atUriField: 'bluesky.uri' }
+        }),
+        /Invalid atUriField "bluesky.uri"/,
+        'rejects dotted marker fields'
+    )
+})
+
+test('parseCliArgs parses publish selection', t => {
+    const cli = parseCliArgs([
+        'publish',
+        'posts/one.md',
+        'posts/2026-*.md',
+        '--since',
+        'v1.0.0',
+        '--limit',
+        '1'
+    ])
+    t.equal(cli.command, 'publish', 'parses publish command')
+    t.deepEqual(cli.options.paths, ['posts/one.md', 'posts/2026-*.md'],
+        'collects paths and globs')
+    t.equal(cli.options.since, 'v1.0.0', 'parses since ref')
+    t.equal(cli.options.limit, 1, 'parses limit')
+})
+
+test('globToRegExp', t => {
+    t.ok(globToRegExp('posts/*.md').test('posts/a.md'), 'matches *')
+    t.ok(!globToRegExp('posts/*.md').test('posts/2026/a.md'),
+        '* stays in one directory')
+    t.ok(globToRegExp('posts/**/*.md').test('posts/a.md'),
+        '**/ matches no directories')
+    t.ok(globToRegExp('posts/**/*.md').test('posts/2026/02/a.md'),
+        '**/ matches nested directories')
+    t.ok(globToRegExp('posts/{a,b}.md').test('posts/b.md'),
+        'matches alternatives')
+    t.ok(!globToRegExp('posts/a?md').test('posts/a/md'),
+        '? does not match a slash')
+    t.ok(!globToRegExp('posts/a.md').test('posts/abmd'),
+        'escapes dots')
+})
+
+test('parseCliArgs parses the resume command', t => {
+    const cli = parseCliArgs(['resume', '--dry-run'])
+    t.equal(cli.command, 'resume', 'parses resume command')
+    t.ok(cli.options.dryRun, 'parses dry-run flag')
+})
+
+test('parseCliArgs parses the login command', t => {
+    const cli = parseCliArgs(['login', '--handle', 'nick.bsky.social'])
+    t.equal(cli.command, 'login', 'parses login command')
+    t.equal(cli.options.handle, 'nick.bsky.social', 'parses handle option')
+
+    const account = parseCliArgs(['login', '--account', 'project'])
+    t.equal(account.options.account, 'project', 'parses account option')
+})
+
+test('parseCliArgs parses unpublish paths', t => {
+    const cli = parseCliArgs([
+        'unpublish',
+        'posts/one.md',
+        'posts/two.md',
+        '--dry-run'
+    ])
+    t.equal(cli.command, 'unpublish', 'parses unpublish command')
+    t.deepEqual(cli.options.paths, ['posts/one.md', 'posts/two.md'],
+        'collects the post paths')
+    t.ok(cli.options.dryRun, 'parses dry-run flag')
+
+    t.throws(() => parseCliArgs(['unpublish']), /Not enough/,
+        'requires at least one path')
 })
 
 test(
@@ -371,6 +1817,445 @@ test(
     }
 )
 
+test('normalizeConfig reads named accounts', t => {
+    const env = { NOAT_BASE_URL: 'https://blog.example.com' }
+    const config = normalizeConfig({
+        configDir: '/repo',
+        env,
+        config: {
+            posts: 'posts',
+            accounts: [
+                { name: 'me', handle: 'nick.bsky.social', default: true },
+                {
+                    name: 'project',
+                    handle: 'project.example.com',
+                    pdsUrl: 'https://pds.example.com',
+                    posts: 'posts/project'
+                }
+            ]
+        }
+    })
+
+    t.equal(config.handle, 'nick.bsky.social',
+        'uses the first account at the top level')
+    t.deepEqual(config.accounts, [{
+        name: 'me',
+        target: 'bluesky',
+        default: true,
+        handle: 'nick.bsky.social',
+        pdsUrl: null,
+        passwordEnvVar: 'NOAT_BLUESKY_APP_PASSWORD',
+        postsDir: '/repo/posts'
+    }, {
+        name: 'project',
+        target: 'bluesky',
+        default: false,
+        handle: 'project.example.com',
+        pdsUrl: 'https://pds.example.com',
+        passwordEnvVar: 'NOAT_BLUESKY_APP_PASSWORD_PROJECT',
+        postsDir: '/repo/posts/project'
+    }], 'fills in account defaults')
+
+    const first = resolveAccountConfig(config, config.accounts[0])
+    t.equal(first.atUriField, 'AT_URI', 'default account keeps the markers')
+    t.equal(first.stateDir, '/repo/.noat',
+        'default account keeps the state dir')
+
+    const project = resolveAccountConfig(config, config.accounts[1])
+    t.equal(project.handle, 'project.example.com', 'uses the account handle')
+    t.deepEqual([
+        project.atUrlField,
+        project.atUriField,
+        project.atCidField,
+        project.hashField
+    ], ['AT_URL_project', 'AT_URI_project', 'AT_CID_project',
+        'AT_HASH_project'], 'suffixes the markers of other accounts')
+    t.equal(project.stateDir, '/repo/.noat/accounts/project',
+        'keeps other accounts in their own state dir')
+
+    const reordered = normalizeConfig({
+        configDir: '/repo',
+        env,
+        config: {
+            accounts: [
+                { name: 'project', handle: 'project.example.com' },
+                { name: 'me', handle: 'nick.bsky.social', default: true }
+            ]
+        }
+    })
+    t.deepEqual(reordered.accounts.map(account => {
+        return resolveAccountConfig(reordered, account).atUriField
+    }), ['AT_URI_project', 'AT_URI'], 'keeps the markers when reordered')
+
+    t.throws(
+        () => normalizeConfig({
+            configDir: '/repo',
+            env,
+            config: {
+                accounts: [
+                    { name: 'me', handle: 'a.bsky.social' },
+                    { name: 'project', handle: 'b.bsky.social' }
+                ]
+            }
+        }),
+        /Set "default: true" on exactly one bluesky account \(me, project\)/,
+        'needs a default when a target has several accounts'
+    )
+
+    t.throws(
+        () => normalizeConfig({
+            configDir: '/repo',
+            env,
+            config: {
+                accounts: [
+                    { name: 'me', handle: 'a.bsky.social' },
+                    { name: 'me', handle: 'b.bsky.social' }
+                ]
+            }
+        }),
+        /Duplicate account "me"/,
+        'rejects duplicate names'
+    )
+    t.throws(
+        () => normalizeConfig({
+            configDir: '/repo',
+            env,
+            config: { accounts: [{ name: 'a b', handle: 'a.bsky.social' }] }
+        }),
+        /Invalid account name "a b"/,
+        'rejects names that cannot be used in field names'
+    )
+})
+
+test('resolvePostAccounts reads frontmatter or the posts dir', t => {
+    const config = normalizeConfig({
+        configDir: '/repo',
+        env: { NOAT_BASE_URL: 'https://blog.example.com' },
+        config: {
+            posts: 'posts',
+            accounts: [
+                { name: 'me', handle: 'nick.bsky.social', default: true },
+                {
+                    name: 'project',
+                    handle: 'project.example.com',
+                    posts: 'posts/project'
+                },
+                { name: 'work', handle: 'work.example.com' }
+            ]
+        }
+    })
+    const names = (postPath:string, frontmatter = {}) => resolvePostAccounts({
+        repoRoot: '/repo',
+        config,
+        postPath,
+        frontmatter
+    }).map(account => account.name)
+
+    t.deepEqual(names('posts/hello.md'), ['me'],
+        'uses the first account for the shared posts dir')
+    t.deepEqual(names('posts/project/release.md'), ['project'],
+        'uses the innermost posts dir')
+    t.deepEqual(names('posts/hello.md', { accounts: ['me', 'work'] }),
+        ['me', 'work'], 'reads the accounts frontmatter list')
+    t.deepEqual(names('posts/hello.md', { bluesky: { accounts: 'work' } }),
+        ['work'], 'reads bluesky.accounts as a string')
+    t.throws(
+        () => names('posts/hello.md', { accounts: ['nobody'] }),
+        /lists unknown account "nobody"/,
+        'rejects unknown accounts'
+    )
+})
+
+test('normalizeConfig reads Mastodon accounts', t => {
+    const config = normalizeConfig({
+        configDir: '/repo',
+        env: { NOAT_BASE_URL: 'https://blog.example.com' },
+        config: {
+            accounts: [
+                { name: 'me', handle: 'nick.bsky.social' },
+                {
+                    name: 'toot',
+                    target: 'mastodon',
+                    default: true,
+                    instanceUrl: 'https://mastodon.example/'
+                },
+                {
+                    name: 'work',
+                    target: 'mastodon',
+                    instanceUrl: 'https://work.example'
+                }
+            ]
+        }
+    })
+
+    t.deepEqual(config.accounts.slice(1), [{
+        name: 'toot',
+        target: 'mastodon',
+        default: true,
+        handle: 'mastodon.example',
+        pdsUrl: 'https://mastodon.example',
+        passwordEnvVar: 'NOAT_MASTODON_TOKEN',
+        postsDir: '/repo/posts'
+    }, {
+        name: 'work',
+        target: 'mastodon',
+        default: false,
+        handle: 'work.example',
+        pdsUrl: 'https://work.example',
+        passwordEnvVar: 'NOAT_MASTODON_TOKEN_WORK',
+        postsDir: '/repo/posts'
+    }], 'reads the instance and token env var')
+
+    const toot = resolveAccountConfig(config, config.accounts[1])
+    t.deepEqual([
+        toot.target,
+        toot.atUrlField,
+        toot.atUriField,
+        toot.atCidField,
+        toot.hashField
+    ], ['mastodon', 'MASTODON_URL', 'MASTODON_URI', 'MASTODON_ID',
+        'MASTODON_HASH'], 'default Mastodon account keeps the plain markers')
+    t.equal(toot.stateDir, '/repo/.noat/accounts/toot',
+        'keeps its own state dir')
+    t.equal(resolveAccountConfig(config, config.accounts[2]).atCidField,
+        'MASTODON_ID_work', 'suffixes the markers of other Mastodon accounts')
+
+    t.throws(
+        () => normalizeConfig({
+            configDir: '/repo',
+            env: { NOAT_BASE_URL: 'https://blog.example.com' },
+            config: { accounts: [{ name: 'toot', target: 'mastodon' }] }
+        }),
+        /Account "toot" needs an instanceUrl/,
+        'requires an instance URL'
+    )
+    t.throws(
+        () => normalizeConfig({
+            configDir: '/repo',
+            env: { NOAT_BASE_URL: 'https://blog.example.com' },
+            config: {
+                accounts: [{
+                    name: 'me',
+                    target: 'friendster' as any,
+                    handle: 'me'
+                }]
+            }
+        }),
+        /Invalid target "friendster"/,
+        'rejects unknown targets'
+    )
+})
+
+test('toMastodonText writes links and cards out in full', t => {
+    const richText = buildRichText(
+        'Read [the post](https://blog.example.com/a) at ' +
+            'https://blog.example.com/a-long-path',
+        { shortenLinks: true }
+    )
+    t.equal(
+        toMastodonText({ ...richText, images: [] }),
+        'Read the post (https://blog.example.com/a) at ' +
+            'https://blog.example.com/a-long-path',
+        'expands link labels and short links'
+    )
+    t.equal(
+        toMastodonText({
+            text: 'New post',
+            facets: [],
+            images: [],
+            card: {
+                uri: 'https://blog.example.com/b',
+                title: 'B',
+                description: ''
+            }
+        }),
+        'New post\n\nhttps://blog.example.com/b',
+        'adds the card URL'
+    )
+})
+
+test('the Mastodon target publishes through the Mastodon API', async t => {
+    const requests:Array<{
+        method:string
+        url:string
+        headers:Record<string, unknown>
+        body:string
+    }> = []
+    const statuses = new Map<string, string>()
+    const server = createServer((req, res) => {
+        let body = ''
+        req.on('data', chunk => { body += chunk })
+        req.on('end', () => {
+            const url = req.url ?? ''
+            const method = req.method ?? 'GET'
+            requests.push({ method, url, headers: req.headers, body })
+            const send = (status:number, json:unknown) => {
+                res.writeHead(status, { 'content-type': 'application/json' })
+                res.end(JSON.stringify(json))
+            }
+
+            if (req.headers.authorization !== 'Bearer token') {
+                return send(401, { error: 'The access token is invalid' })
+            }
+            if (url === '/api/v1/accounts/verify_credentials') {
+                return send(200, {
+                    acct: 'nick',
+                    url: 'https://social.example/@nick'
+                })
+            }
+            if (url === '/api/v2/media') {
+                return send(200, { id: 'm1', url: 'https://files/m1.png' })
+            }
+            if (url === '/api/v1/statuses' && method === 'POST') {
+                const id = String(statuses.size + 1)
+                statuses.set(id, body)
+                return send(200, {
+                    id,
+                    uri: `https://social.example/users/nick/statuses/${id}`
+                })
+            }
+
+            const id = url.split('/').pop() ?? ''
+            if (!statuses.has(id)) return send(404, { error: 'Not found' })
+            if (method === 'PUT') {
+                statuses.set(id, body)
+                return send(200, {
+                    id,
+                    uri: `https://social.example/users/nick/statuses/${id}`
+                })
+            }
+            statuses.delete(id)
+            return send(200, {})
+        })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as { port:number }
+
+    try {
+        const target = getPublishTarget('mastodon')
+        const config = {
+            ...TEST_CONFIG,
+            target: 'mastodon' as const,
+            pdsUrl: `http://127.0.0.1:${port}`,
+            passwordEnvVar: 'NOAT_MASTODON_TOKEN',
+            atCidField: 'MASTODON_ID',
+            repliesField: 'MASTODON_REPLIES'
+        }
+        const io = { log: () => {}, error: () => {} }
+
+        await t.throws(
+            () => target.authenticate({ env: {}, config, verbose: false, io }),
+            /Set NOAT_MASTODON_TOKEN/,
+            'needs the access token'
+        )
+
+        const session = await target.authenticate({
+            env: { NOAT_MASTODON_TOKEN: 'token' },
+            config,
+            verbose: false,
+            io
+        })
+        const draft = {
+            path: 'posts/hello.md',
+            text: 'Hello',
+            facets: [],
+            images: [{
+                path: 'posts/cat.png',
+                alt: 'A cat',
+                mimeType: 'image/png',
+                bytes: Buffer.from('png')
+            }],
+            langs: ['en-US'],
+            replies: [{ text: 'More', facets: [], images: [] }],
+            gates: { allowReplies: null, allowQuotes: true },
+            contentHash: 'hash'
+        }
+        const records:Array<{ rkey:string, uri?:string, cid?:string }> = [
+            { rkey: 'key1' },
+            { rkey: 'key2' }
+        ]
+        let saves = 0
+        const root = await target.createPost({
+            session,
+            config,
+            draft,
+            post: { contentHash: 'hash', records },
+            save: async () => { saves += 1 }
+        })
+
+        t.deepEqual(root, {
+            uri: 'https://social.example/users/nick/statuses/1',
+            cid: '1'
+        }, 'returns the first status')
+        t.equal(saves, 2, 'saves each status as it is created')
+        const upload = requests.find(request => {
+            return request.url === '/api/v2/media'
+        })
+        t.ok(upload?.body.includes('A cat'), 'sends the alt text')
+        const [first, reply] = requests.filter(request => {
+            return request.url === '/api/v1/statuses'
+        })
+        t.deepEqual(JSON.parse(first.body), {
+            status: 'Hello',
+            media_ids: ['m1'],
+            language: 'en'
+        }, 'posts the text, media and language')
+        t.equal(first.headers['idempotency-key'], 'key1',
+            'uses the record key as the idempotency key')
+        t.equal(JSON.parse(reply.body).in_reply_to_id, '1',
+            'threads replies')
+        t.equal(
+            target.getPostUrl({ session, config, post: root }),
+            'https://social.example/@nick/1',
+            'links to the status under the profile'
+        )
+
+        const ref = target.readRef({
+            frontmatter: { MASTODON_ID: '1' },
+            config,
+            postPath: draft.path
+        })
+        const updated = await target.updatePost({
+            session,
+            config,
+            draft: { ...draft, text: 'Hello again', images: [], replies: [] },
+            ref
+        })
+        t.equal(updated.cid, '1', 'edits the status in place')
+        t.equal(JSON.parse(statuses.get('1') ?? '{}').status, 'Hello again',
+            'sends the new text')
+
+        await target.deletePost({ session, ref })
+        t.ok(!statuses.has('1'), 'deletes the status')
+        await target.deletePost({ session, ref })
+        t.ok(true, 'ignores a status that is already gone')
+    } finally {
+        server.close()
+    }
+})
+
+test('normalizeConfig validates backlinkMode', t => {
+    const env = {
+        NOAT_BLUESKY_HANDLE: 'nick.bsky.social',
+        NOAT_BASE_URL: 'https://blog.example.com'
+    }
+
+    t.equal(
+        normalizeConfig({ configDir: '/repo', env, config: {} }).backlinkMode,
+        'inline',
+        'defaults to an inline backlink'
+    )
+    t.throws(
+        () => normalizeConfig({
+            configDir: '/repo',
+            env,
+            config: { backlinkMode: 'popup' as any }
+        }),
+        /Invalid backlinkMode/,
+        'rejects unknown modes'
+    )
+})
+
 test('normalizeConfig requires baseUrl', t => {
     t.throws(
         () => normalizeConfig({
@@ -383,4 +2268,652 @@ test('normalizeConfig requires baseUrl', t => {
         /Missing baseUrl/,
         'fails when baseUrl cannot be resolved'
     )
+    t.equal(normalizeConfig({
+        configDir: '/repo',
+        env: { NOAT_BLUESKY_HANDLE: 'nick.bsky.social' },
+        config: {},
+        loginOnly: true
+    }).handle, 'nick.bsky.social', 'is not needed to log in')
+})
+
+test('resume finishes a thread interrupted after a record', async t => {
+    const pds = createFakePds()
+    const { dir, git } = createPostsRepo({
+        'posts/long.md': THREAD_POST
+    }, { thread: true })
+
+    try {
+        pds.fail.push({ method: 'createRecord', call: 2 })
+        await withFetch(pds.fetchImpl, async () => {
+            await t.throws(
+                () => publish({ cwd: dir }, QUIET_IO),
+                /Run "noat resume"/,
+                'stops at the failed reply'
+            )
+        })
+        t.equal(pds.records.size, 1, 'created the first record')
+        t.ok(existsSync(join(dir, '.noat/journal.json')), 'keeps the journal')
+
+        const summary = await withFetch(pds.fetchImpl, () => {
+            return resume({ cwd: dir }, QUIET_IO)
+        })
+        t.equal(summary.publishedPosts, 1, 'publishes the post')
+        t.equal(pds.records.size, 2, 'creates only the missing reply')
+        t.equal(pds.count('createRecord'), 3, 'does not post the first again')
+        t.ok(!existsSync(join(dir, '.noat/journal.json')),
+            'removes the journal')
+        t.equal(git('status', '--porcelain'), '', 'commits the frontmatter')
+        t.ok(git('show', 'HEAD:posts/long.md').includes('AT_URI:'),
+            'records the first post')
+    } finally {
+        rmSync(dir, { recursive: true, force: true })
+    }
+})
+
+test('resume commits frontmatter left by a crash', async t => {
+    const pds = createFakePds()
+    const { dir, git } = createPostsRepo({
+        'posts/one.md': '---\npost: One\n---\n'
+    })
+    try {
+        await withFetch(pds.fetchImpl, () => publish({ cwd: dir }, QUIET_IO))
+
+        // Back to the state of a run that wrote the frontmatter, then died
+        // before its commit.
+        git('reset', '-q', 'HEAD~1')
+        const published = readFileSync(join(dir, 'posts/one.md'), 'utf8')
+        const field = (name:string) => {
+            return new RegExp(`${name}: "([^"]+)"`).exec(published)?.[1]
+        }
+        const uri = field('AT_URI') ?? ''
+        writeFileSync(join(dir, '.noat/journal.json'), JSON.stringify({
+            queue: ['posts/one.md'],
+            posts: {
+                'posts/one.md': {
+                    contentHash: field('AT_HASH'),
+                    records: [{
+                        rkey: parseAtUri(uri).rkey,
+                        uri,
+                        cid: field('AT_CID')
+                    }]
+                }
+            }
+        }))
+
+        const summary = await withFetch(pds.fetchImpl, () => {
+            return resume({ cwd: dir }, QUIET_IO)
+        })
+        t.equal(summary.publishedPosts, 1, 'finishes the post')
+        t.equal(pds.count('createRecord'), 1, 'posts nothing new')
+        t.equal(git('status', '--porcelain'), '', 'commits the frontmatter')
+        t.equal(git('log', '-1', '--format=%s').trim(), 'AT proto publish 1',
+            'makes the publish commit')
+    } finally {
+        rmSync(dir, { recursive: true, force: true })
+    }
+})
+
+test('resume picks up a record sent before a crash', async t => {
+    const pds = createFakePds()
+    const { dir, git } = createPostsRepo({
+        'posts/one.md': '---\npost: One\n---\n'
+    })
+    try {
+        await withFetch(pds.fetchImpl, () => publish({ cwd: dir }, QUIET_IO))
+
+        // The record was made, but the run died before it saved the URI.
+        const published = readFileSync(join(dir, 'posts/one.md'), 'utf8')
+        const rkey = [...pds.records.keys()][0].split('/')[1]
+        git('reset', '-q', '--hard', 'HEAD~1')
+        writeFileSync(join(dir, '.noat/journal.json'), JSON.stringify({
+            queue: ['posts/one.md'],
+            posts: {
+                'posts/one.md': {
+                    contentHash: /AT_HASH: "([^"]+)"/.exec(published)?.[1],
+                    records: [{ rkey, sent: true }]
+                }
+            }
+        }))
+
+        const summary = await withFetch(pds.fetchImpl, () => {
+            return resume({ cwd: dir }, QUIET_IO)
+        })
+        t.equal(summary.publishedPosts, 1, 'finishes the post')
+        t.equal(pds.count('createRecord'), 1, 'does not post it again')
+        t.ok(git('show', 'HEAD:posts/one.md').includes(rkey),
+            'records the record it found')
+    } finally {
+        rmSync(dir, { recursive: true, force: true })
+    }
+})
+
+test('resume refuses a post that changed or went away', async t => {
+    const pds = createFakePds()
+    const { dir, git } = createPostsRepo({
+        'posts/long.md': THREAD_POST
+    }, { thread: true })
+
+    try {
+        pds.fail.push({ method: 'createRecord', call: 2 })
+        await withFetch(pds.fetchImpl, async () => {
+            await t.throws(
+                () => publish({ cwd: dir }, QUIET_IO),
+                /Run "noat resume"/,
+                'stops part way'
+            )
+        })
+
+        writeFileSync(join(dir, 'posts/long.md'),
+            THREAD_POST.replace('First part.', 'Edited part.'))
+        git('commit', '-qam', 'edit')
+        await withFetch(pds.fetchImpl, async () => {
+            await t.throws(
+                () => resume({ cwd: dir }, QUIET_IO),
+                /changed since it was partly published/,
+                'refuses edited content'
+            )
+        })
+
+        git('rm', '-q', 'posts/long.md')
+        git('commit', '-qm', 'remove')
+        await withFetch(pds.fetchImpl, async () => {
+            await t.throws(
+                () => resume({ cwd: dir }, QUIET_IO),
+                /was partly published, but is no longer a post/,
+                'reports a removed post instead of dropping its records'
+            )
+        })
+        t.equal(pds.records.size, 1, 'leaves the created record alone')
+        t.ok(existsSync(join(dir, '.noat/journal.json')), 'keeps the journal')
+    } finally {
+        rmSync(dir, { recursive: true, force: true })
+    }
+})
+
+test('publish applies --limit to the whole run', async t => {
+    const { dir } = createPostsRepo({
+        'posts/a.md': '---\npost: A\n---\n',
+        'posts/b.md': '---\npost: B\naccounts: [work]\n---\n'
+    }, {
+        handle: undefined,
+        accounts: [
+            { name: 'me', handle: 'me.test', default: true },
+            { name: 'work', handle: 'work.test' }
+        ]
+    })
+
+    try {
+        const summary = await publish({
+            cwd: dir,
+            limit: 1,
+            dryRun: true
+        }, QUIET_IO)
+        t.equal(summary.queuedPosts, 1, 'queues one post across both accounts')
+    } finally {
+        rmSync(dir, { recursive: true, force: true })
+    }
+})
+
+test('publish truncates, splits or rejects more than four images', async t => {
+    const png = Buffer.alloc(24)
+    Buffer.from('89504e470d0a1a0a0000000d', 'hex').copy(png)
+    png.write('IHDR', 12, 'latin1')
+    png.writeUInt32BE(10, 16)
+    png.writeUInt32BE(10, 20)
+    const names = ['a', 'b', 'c', 'd', 'e']
+    const { dir } = createPostsRepo({
+        'posts/a.md': '---\npost: A\n---\n' +
+            names.map(name => `![${name}](./${name}.png)`).join('\n') + '\n'
+    })
+    try {
+        for (const name of names) {
+            writeFileSync(join(dir, `posts/${name}.png`), png)
+        }
+        execFileSync('git', ['add', '-A'], { cwd: dir })
+        execFileSync('git', ['commit', '-qm', 'images'], { cwd: dir })
+
+        const logs:string[] = []
+        const errors:string[] = []
+        const io = {
+            log: (message:string) => logs.push(message),
+            error: (message:string) => errors.push(message)
+        }
+        const dryRun = (imageOverflow:string) => publish({
+            cwd: dir,
+            dryRun: true,
+            imageOverflow: imageOverflow as 'error'
+        }, io)
+
+        await dryRun('truncate')
+        t.ok(errors.some(error => error.includes('leaving out posts/e.png')),
+            'says which images are left out')
+        t.ok(logs.some(log => log.endsWith('posts/a.md')), 'in a single post')
+
+        await dryRun('split')
+        t.ok(logs.some(log => log.includes('posts/a.md (thread of 2 posts)')),
+            'puts the rest in a reply')
+
+        await t.throws(() => dryRun('error'), /has 5 images/,
+            'rejects the post')
+
+        errors.length = 0
+        await publish({ cwd: dir, dryRun: true, backlinkMode: 'card' }, io)
+        t.ok(errors.some(error => {
+            return error.includes('thumbnail, leaving out posts/b.png')
+        }), 'says which images a link card leaves out')
+    } finally {
+        rmSync(dir, { recursive: true, force: true })
+    }
+})
+
+test('publish rejects a video tag Bluesky cannot take', async t => {
+    const { dir } = createPostsRepo({
+        'posts/a.md': '---\npost: A\n---\n<video src="./a.avi"></video>\n',
+        'posts/a.avi': 'video'
+    })
+    try {
+        await t.throws(
+            () => publish({ cwd: dir, dryRun: true }, QUIET_IO),
+            /Video "posts\/a\.avi" is not a video Bluesky takes/,
+            'checks the extension'
+        )
+    } finally {
+        rmSync(dir, { recursive: true, force: true })
+    }
+})
+
+test('commands reuse, refresh or replace the cached session', async t => {
+    const pds = createFakePds()
+    const { dir } = createPostsRepo({ 'posts/a.md': '---\npost: A\n---\n' })
+    try {
+        await withFetch(pds.fetchImpl, () => publish({ cwd: dir }, QUIET_IO))
+        const run = () => withFetch(pds.fetchImpl, () => {
+            return update({ cwd: dir, force: true }, QUIET_IO)
+        })
+
+        await run()
+        t.equal(pds.count('getSession'), 1, 'checks the cached session')
+        t.equal(pds.count('createSession'), 1, 'reuses it')
+
+        pds.fail.push({ method: 'getSession', call: 2 })
+        await run()
+        t.equal(pds.count('refreshSession'), 1,
+            'refreshes a session rejected before it expires')
+        t.equal(pds.count('createSession'), 1, 'without logging in')
+
+        pds.fail.push(
+            { method: 'getSession', call: 3 },
+            { method: 'refreshSession', call: 2 }
+        )
+        await run()
+        t.equal(pds.count('createSession'), 2,
+            'logs in again when the refresh is rejected too')
+
+        const file = join(dir, '.noat/session.json')
+        const sessions = JSON.parse(readFileSync(file, 'utf8'))
+        for (const session of Object.values<any>(sessions)) {
+            session.accessJwt = toTestJwt(1)
+        }
+        writeFileSync(file, JSON.stringify(sessions))
+        await run()
+        t.deepEqual([pds.count('getSession'), pds.count('refreshSession')],
+            [3, 3], 'refreshes an expired session without checking it')
+    } finally {
+        rmSync(dir, { recursive: true, force: true })
+    }
+})
+
+test('login runs the OAuth flow, and publish uses it', async t => {
+    const pds = createFakePds()
+    const nativeFetch = globalThis.fetch
+    const forms:Record<string, URLSearchParams> = {}
+    const proofs:Array<Record<string, any>> = []
+    const authorizations:string[] = []
+    let rejectRefresh = false
+    let failRefresh = false
+    let refreshes = 0
+    const respond = (status:number, json:unknown, headers = {}) => {
+        return new Response(JSON.stringify(json), {
+            status,
+            headers: { 'content-type': 'application/json', ...headers }
+        })
+    }
+    const fetchImpl = async (url:string, init:Record<string, any> = {}) => {
+        const { origin, pathname } = new URL(url)
+        if (url === 'https://plc.test/did:plc:me') {
+            return respond(200, {
+                id: 'did:plc:me',
+                service: [{
+                    id: '#atproto_pds',
+                    type: 'AtprotoPersonalDataServer',
+                    serviceEndpoint: 'http://pds.test'
+                }]
+            })
+        }
+        if (pathname === '/.well-known/oauth-protected-resource') {
+            return respond(200, { authorization_servers: ['http://auth.test'] })
+        }
+        if (pathname === '/.well-known/oauth-authorization-server') {
+            return respond(200, {
+                issuer: 'http://auth.test',
+                authorization_endpoint: 'http://auth.test/authorize',
+                token_endpoint: 'http://auth.test/token',
+                pushed_authorization_request_endpoint: 'http://auth.test/par'
+            })
+        }
+        if (origin !== 'http://auth.test') {
+            authorizations.push(init.headers?.authorization)
+            return pds.fetchImpl(url, init)
+        }
+
+        const proof = JSON.parse(Buffer.from(
+            init.headers.dpop.split('.')[1],
+            'base64url'
+        ).toString('utf8'))
+        proofs.push(proof)
+        if (proof.nonce !== 'n1') {
+            return respond(400, { error: 'use_dpop_nonce' }, {
+                'dpop-nonce': 'n1'
+            })
+        }
+
+        const form = new URLSearchParams(init.body)
+        if (pathname === '/par') {
+            forms.par = form
+            // The browser comes back once the user has logged in.
+            setTimeout(() => {
+                nativeFetch(`${form.get('redirect_uri')}?` +
+                    new URLSearchParams({
+                        code: 'code1',
+                        state: form.get('state') ?? '',
+                        iss: 'http://auth.test'
+                    }).toString()).catch(() => {})
+            }, 0)
+            return respond(201, { request_uri: 'urn:request', expires_in: 60 })
+        }
+        forms[form.get('grant_type') ?? ''] = form
+        if (form.get('grant_type') === 'refresh_token') {
+            refreshes++
+            if (failRefresh) return respond(503, { error: 'unavailable' })
+            if (rejectRefresh) return respond(400, { error: 'invalid_grant' })
+        }
+        return respond(200, {
+            access_token: 'oauth-access',
+            refresh_token: 'oauth-refresh',
+            token_type: 'DPoP',
+            sub: 'did:plc:me',
+            expires_in: 3600
+        })
+    }
+
+    const { dir } = createPostsRepo({ 'posts/a.md': '---\npost: A\n---\n' }, {
+        handle: 'did:plc:me',
+        plcDirectoryUrl: 'https://plc.test',
+        baseUrl: undefined,
+        retries: 1,
+        retryDelayMs: 1
+    })
+    try {
+        await withFetch(fetchImpl, () => login({ cwd: dir }, QUIET_IO))
+
+        t.equal(forms.par.get('code_challenge_method'), 'S256',
+            'pushes the request')
+        t.deepEqual([proofs[0].nonce, proofs[1].nonce], [undefined, 'n1'],
+            'sends it again with the DPoP nonce')
+        t.equal(forms.authorization_code.get('code'), 'code1',
+            'trades the code from the redirect')
+        t.equal(
+            createHash('sha256')
+                .update(forms.authorization_code.get('code_verifier') ?? '')
+                .digest('base64url'),
+            forms.par.get('code_challenge'),
+            'with the PKCE verifier'
+        )
+
+        const configPath = join(dir, 'noat.config.json')
+        const config = JSON.parse(readFileSync(configPath, 'utf8'))
+        writeFileSync(configPath, JSON.stringify({
+            ...config,
+            baseUrl: 'https://blog.test'
+        }))
+        execFileSync('git', ['commit', '-qam', 'config'], { cwd: dir })
+        await withFetch(fetchImpl, () => publish({ cwd: dir }, QUIET_IO))
+        t.equal(pds.count('createSession'), 0, 'publishes with the OAuth login')
+        t.ok(authorizations.every(value => value === 'DPoP oauth-access'),
+            'with DPoP tokens')
+
+        const file = join(dir, '.noat/oauth.json')
+        const sessions = JSON.parse(readFileSync(file, 'utf8'))
+        sessions['did:plc:me'].expiresAt = 0
+        writeFileSync(file, JSON.stringify(sessions))
+        failRefresh = true
+        await withFetch(fetchImpl, async () => {
+            await t.throws(
+                () => update({ cwd: dir, force: true }, QUIET_IO),
+                /OAuth token refresh/,
+                'fails when the refresh gets no answer'
+            )
+        })
+        t.equal(refreshes, 1, 'without sending the spent token again')
+        t.equal(forms.refresh_token.get('refresh_token'), 'oauth-refresh',
+            'refreshes an expired OAuth login')
+
+        failRefresh = false
+        rejectRefresh = true
+        await withFetch(fetchImpl, () => {
+            return update({ cwd: dir, force: true }, QUIET_IO)
+        })
+        t.equal(pds.count('createSession'), 1,
+            'falls back to the app password when that is rejected')
+    } finally {
+        rmSync(dir, { recursive: true, force: true })
+    }
+})
+
+test('update checks threads first and commits what it updated', async t => {
+    const pds = createFakePds()
+    const { dir, git } = createPostsRepo({
+        'posts/a.md': '---\npost: A\n---\n',
+        'posts/b.md': '---\npost: B\n---\n',
+        'posts/long.md': THREAD_POST
+    }, { thread: true })
+    try {
+        await withFetch(pds.fetchImpl, () => publish({ cwd: dir }, QUIET_IO))
+
+        const edit = (path:string, from:string, to:string) => {
+            const file = join(dir, path)
+            writeFileSync(file, readFileSync(file, 'utf8').replace(from, to))
+        }
+        edit('posts/a.md', 'post: A', 'post: A2')
+        edit('posts/b.md', 'post: B', 'post: B2')
+        edit('posts/long.md', 'First part.', 'Edited part.')
+        git('commit', '-qam', 'edit')
+
+        await withFetch(pds.fetchImpl, async () => {
+            await t.throws(
+                () => update({ cwd: dir }, QUIET_IO),
+                /posts published as a thread cannot be updated/,
+                'refuses a changed thread'
+            )
+        })
+        t.equal(pds.count('putRecord'), 0, 'before updating anything')
+
+        edit('posts/long.md', 'Edited part.', 'First part.')
+        git('commit', '-qam', 'restore')
+        pds.fail.push({ method: 'putRecord', call: 2 })
+        await withFetch(pds.fetchImpl, async () => {
+            await t.throws(
+                () => update({ cwd: dir }, QUIET_IO),
+                /Updated 1 of 2 posts/,
+                'says how far it got'
+            )
+        })
+        t.equal(git('status', '--porcelain'), '', 'leaves the tree clean')
+        t.equal(git('log', '-1', '--format=%s').trim(), 'AT proto update 1',
+            'commits the post that was updated')
+
+        const summary = await withFetch(pds.fetchImpl, () => {
+            return update({ cwd: dir }, QUIET_IO)
+        })
+        t.equal(summary.updatedPosts, 1, 'updates the rest on the next run')
+    } finally {
+        rmSync(dir, { recursive: true, force: true })
+    }
+})
+
+test('update rejects a changed replyTo', async t => {
+    const pds = createFakePds()
+    const { dir, git } = createPostsRepo({
+        'posts/a.md': '---\npost: A\n---\n',
+        'posts/b.md': '---\npost: B\n---\n'
+    })
+    try {
+        await withFetch(pds.fetchImpl, () => publish({ cwd: dir }, QUIET_IO))
+        const uriOf = (path:string) => {
+            const text = readFileSync(join(dir, path), 'utf8')
+            return /AT_URI: (\S+)/.exec(text)?.[1]
+        }
+
+        writeFileSync(join(dir, 'posts/c.md'),
+            `---\npost: C\nreplyTo: ${uriOf('posts/a.md')}\n---\n`)
+        git('add', '-A')
+        git('commit', '-qm', 'reply')
+        await withFetch(pds.fetchImpl, () => publish({ cwd: dir }, QUIET_IO))
+
+        const file = join(dir, 'posts/c.md')
+        writeFileSync(file, readFileSync(file, 'utf8')
+            .replace(`replyTo: ${uriOf('posts/a.md')}`,
+                `replyTo: ${uriOf('posts/b.md')}`))
+        git('commit', '-qam', 'move')
+        await withFetch(pds.fetchImpl, async () => {
+            await t.throws(
+                () => update({ cwd: dir }, QUIET_IO),
+                /Cannot update "posts\/c\.md": its replyTo changed/,
+                'says the reply cannot move'
+            )
+        })
+
+        writeFileSync(file, readFileSync(file, 'utf8')
+            .replace(`replyTo: ${uriOf('posts/b.md')}`,
+                `replyTo: ${uriOf('posts/a.md')}`)
+            .replace('post: C', 'post: C2'))
+        git('commit', '-qam', 'edit')
+        const summary = await withFetch(pds.fetchImpl, () => {
+            return update({ cwd: dir }, QUIET_IO)
+        })
+        t.equal(summary.updatedPosts, 1, 'updates a reply that stays put')
+    } finally {
+        rmSync(dir, { recursive: true, force: true })
+    }
+})
+
+test('update writes and removes gates', async t => {
+    const pds = createFakePds()
+    const { dir, git } = createPostsRepo({
+        'posts/a.md': '---\npost: A\n---\n'
+    })
+    try {
+        await withFetch(pds.fetchImpl, () => publish({ cwd: dir }, QUIET_IO))
+        const edit = (from:string, to:string) => {
+            const file = join(dir, 'posts/a.md')
+            writeFileSync(file, readFileSync(file, 'utf8').replace(from, to))
+            git('commit', '-qam', 'edit')
+        }
+        const gates = () => [...pds.records.keys()].filter(key => {
+            return !key.startsWith('app.bsky.feed.post/')
+        }).map(key => key.split('/')[0])
+
+        edit('post: A', 'post: A\nallowQuotes: false\nallowReplies: false')
+        const summary = await withFetch(pds.fetchImpl, () => {
+            return update({ cwd: dir }, QUIET_IO)
+        })
+        t.equal(summary.updatedPosts, 1, 'sees the changed gates')
+        t.deepEqual(gates().sort(), [
+            'app.bsky.feed.postgate',
+            'app.bsky.feed.threadgate'
+        ], 'writes the new gates')
+
+        edit('allowQuotes: false\n', '')
+        await withFetch(pds.fetchImpl, () => update({ cwd: dir }, QUIET_IO))
+        t.deepEqual(gates(), ['app.bsky.feed.threadgate'],
+            'removes the gate the post no longer has')
+    } finally {
+        rmSync(dir, { recursive: true, force: true })
+    }
+})
+
+test('posts can link to their long-form entry', async t => {
+    const pds = createFakePds()
+    const { dir, git } = createPostsRepo({
+        'posts/a.md': '---\npost: A\ntitle: Hello\n---\nThe full post.\n'
+    }, { longForm: true, linkToEntry: true })
+    try {
+        await withFetch(pds.fetchImpl, () => publish({ cwd: dir }, QUIET_IO))
+
+        const entries = () => [...pds.records.keys()].filter(key => {
+            return key.startsWith('com.whtwnd.blog.entry/')
+        })
+        const rkey = entries()[0]?.split('/')[1]
+        const url = `https://whtwnd.com/me.test/${rkey}`
+        const post = () => [...pds.records.entries()].find(([key]) => {
+            return key.startsWith('app.bsky.feed.post/')
+        })?.[1] as { text:string }
+        t.equal(post().text, `A\n\n${url}`, 'links to the entry')
+
+        const file = join(dir, 'posts/a.md')
+        writeFileSync(file, readFileSync(file, 'utf8').replace('full', 'whole'))
+        git('commit', '-qam', 'edit')
+        await withFetch(pds.fetchImpl, () => update({ cwd: dir }, QUIET_IO))
+        t.deepEqual(entries(), [`com.whtwnd.blog.entry/${rkey}`],
+            'updates the entry under the same key')
+        t.equal(post().text, `A\n\n${url}`, 'keeps the link')
+
+        writeFileSync(join(dir, 'posts/b.md'),
+            `---\npost: B\ntitle: ${'é'.repeat(600)}\n---\nBody\n`)
+        git('add', '-A')
+        git('commit', '-qm', 'add')
+        await t.throws(
+            () => publish({ cwd: dir, dryRun: true }, QUIET_IO),
+            /title that is too long for a long-form entry: 1200 bytes/,
+            'counts the title in bytes'
+        )
+    } finally {
+        rmSync(dir, { recursive: true, force: true })
+    }
+})
+
+test('unpublish deletes every post of a thread', async t => {
+    const pds = createFakePds()
+    const { dir, git } = createPostsRepo({
+        'posts/a.md': '---\npost: A\n---\n',
+        'posts/long.md': THREAD_POST
+    }, { thread: true })
+    try {
+        await withFetch(pds.fetchImpl, () => publish({ cwd: dir }, QUIET_IO))
+
+        const published = readFileSync(join(dir, 'posts/long.md'), 'utf8')
+        t.ok(/AT_REPLIES: \["at:\/\/did:plc:me\/app\.bsky\.feed\.post\/\w+"\]/
+            .test(published), 'records the replies of a thread')
+        t.equal(pds.records.size, 3, 'publishes three records')
+
+        // The second post's first delete fails.
+        pds.fail.push({ method: 'deleteRecord', call: 7 })
+        await withFetch(pds.fetchImpl, async () => {
+            await t.throws(
+                () => unpublish({
+                    cwd: dir,
+                    paths: ['posts/long.md', 'posts/a.md']
+                }, QUIET_IO),
+                /Unpublished 1 of 2 posts/,
+                'says how far it got'
+            )
+        })
+        t.equal(pds.records.size, 1, 'deletes the thread and its replies')
+        t.ok(!readFileSync(join(dir, 'posts/long.md'), 'utf8').includes('AT_'),
+            'removes the markers')
+        t.equal(git('status', '--porcelain'), '',
+            'commits what was unpublished')
+    } finally {
+        rmSync(dir, { recursive: true, force: true })
+    }
 })